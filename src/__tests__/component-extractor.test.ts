@@ -0,0 +1,1280 @@
+import { ComponentExtractor } from '../extractors/component';
+import { DesignTokenExtractor } from '../extractors/design-tokens';
+import { CacheService } from '../services/cache';
+import { FigmaClient } from '../figma/client';
+import { FigmaFile, FigmaNode } from '../types/figma';
+
+const solid = (r: number, g: number, b: number) => ({
+  type: 'SOLID' as const,
+  color: { r, g, b, a: 1 },
+});
+
+const createFile = (nodes: FigmaNode[]): FigmaFile => ({
+  document: {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: [
+      { id: '0:1', name: 'Components', type: 'CANVAS', children: nodes },
+    ],
+  },
+  components: {},
+  componentSets: {},
+  schemaVersion: 0,
+  styles: {},
+  name: 'Design System',
+  lastModified: '2024-01-01T00:00:00Z',
+  thumbnailUrl: '',
+  version: '1',
+});
+
+const findNode = (node: FigmaNode, id: string): FigmaNode | undefined =>
+  node.id === id ? node : node.children?.map(child => findNode(child, id)).find(Boolean);
+
+const nodesResponse = (file: FigmaFile, ids: string[]) => ({
+  name: file.name,
+  lastModified: file.lastModified,
+  thumbnailUrl: file.thumbnailUrl,
+  version: file.version,
+  nodes: Object.fromEntries(ids.map(id => {
+    const node = findNode(file.document, id);
+    return [id, node ? {
+      document: node,
+      components: file.components,
+      componentSets: file.componentSets,
+      schemaVersion: file.schemaVersion,
+      styles: file.styles,
+    } : null];
+  })),
+});
+
+const createExtractor = (file: FigmaFile, clientOverrides: Record<string, jest.Mock> = {}) => {
+  const client = {
+    getFile: jest.fn().mockResolvedValue(file),
+    getNodes: jest.fn().mockImplementation(async (_fileId: string, ids: string[]) => nodesResponse(file, ids)),
+    getFileComponents: jest.fn().mockResolvedValue({ meta: { components: [] } }),
+    getFileComponentSets: jest.fn().mockResolvedValue({ meta: { component_sets: [] } }),
+    ...clientOverrides,
+  } as unknown as FigmaClient;
+
+  return new ComponentExtractor(client, new CacheService());
+};
+
+describe('ComponentExtractor', () => {
+  describe('variants', () => {
+    const buttonSet: FigmaNode = {
+      id: '1:0',
+      name: 'Button',
+      type: 'COMPONENT_SET',
+      componentPropertyDefinitions: {
+        Size: { type: 'VARIANT', defaultValue: 'Medium', variantOptions: ['Small', 'Medium'] },
+        State: { type: 'VARIANT', defaultValue: 'Default', variantOptions: ['Default', 'Hover'] },
+      },
+      children: [
+        {
+          id: '1:1',
+          name: 'Size=Small, State=Default',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 32 },
+          fills: [solid(0, 0, 1)],
+        },
+        {
+          id: '1:2',
+          name: 'Size=Medium, State=Default',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 100, y: 0, width: 120, height: 40 },
+          fills: [solid(0, 0, 1)],
+          children: [
+            { id: '1:3', name: 'Label', type: 'TEXT', characters: 'Button' },
+          ],
+        },
+        {
+          id: '1:4',
+          name: 'Size=Medium, State=Hover',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 100, y: 60, width: 120, height: 40 },
+          fills: [solid(1, 0, 0)],
+          children: [
+            { id: '1:5', name: 'Label', type: 'TEXT', characters: 'Hovered' },
+          ],
+        },
+      ],
+    };
+
+    it('should parse variant names into properties', async () => {
+      const extractor = createExtractor(createFile([buttonSet]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '1:0' });
+
+      expect(component.variants).toHaveLength(3);
+      expect(component.variants![0].properties).toEqual({ Size: 'Small', State: 'Default' });
+      expect(component.variants![2].properties).toEqual({ Size: 'Medium', State: 'Hover' });
+    });
+
+    it('should compute overrides relative to the default variant', async () => {
+      const extractor = createExtractor(createFile([buttonSet]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '1:0' });
+      const [small, medium, hover] = component.variants!;
+
+      expect(medium.overrides).toEqual({});
+      expect(small.overrides.dimensions).toEqual({ width: 80, height: 32 });
+      expect(small.overrides.layers).toEqual({ Label: { visibility: 'removed' } });
+      expect(hover.overrides.dimensions).toBeUndefined();
+      expect(hover.overrides.fills[0].color).toBe('#ff0000');
+      expect(hover.overrides.layers.Label).toEqual({ characters: 'Hovered' });
+    });
+
+    it('should tell sibling layers with the same name apart', async () => {
+      const iconSet: FigmaNode = {
+        id: '2:0',
+        name: 'Icon Button',
+        type: 'COMPONENT_SET',
+        componentPropertyDefinitions: {
+          Icons: { type: 'VARIANT', defaultValue: 'Both', variantOptions: ['Both', 'Leading', 'Trailing'] },
+        },
+        children: [
+          {
+            id: '2:1',
+            name: 'Icons=Both',
+            type: 'COMPONENT',
+            children: [
+              { id: '2:2', name: 'Icon', type: 'VECTOR' },
+              { id: '2:3', name: 'Label', type: 'TEXT', characters: 'Next' },
+              { id: '2:4', name: 'Icon', type: 'VECTOR' },
+            ],
+          },
+          {
+            id: '2:5',
+            name: 'Icons=Leading',
+            type: 'COMPONENT',
+            children: [
+              { id: '2:6', name: 'Icon', type: 'VECTOR' },
+              { id: '2:7', name: 'Label', type: 'TEXT', characters: 'Next' },
+            ],
+          },
+          {
+            id: '2:8',
+            name: 'Icons=Trailing',
+            type: 'COMPONENT',
+            children: [
+              { id: '2:9', name: 'Icon', type: 'VECTOR', visible: false },
+              { id: '2:10', name: 'Label', type: 'TEXT', characters: 'Next' },
+              { id: '2:11', name: 'Icon', type: 'VECTOR' },
+            ],
+          },
+        ],
+      };
+      const extractor = createExtractor(createFile([iconSet]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '2:0' });
+      const [, leading, trailing] = component.variants!;
+
+      expect(leading.overrides.layers).toEqual({ 'Icon[1]': { visibility: 'removed' } });
+      expect(trailing.overrides.layers).toEqual({ Icon: { visibility: 'hidden' } });
+    });
+
+    it('should find instances of the component and its variants', async () => {
+      const file = createFile([buttonSet]);
+      file.document.children!.push({
+        id: '20:0',
+        name: 'Checkout',
+        type: 'CANVAS',
+        children: [{
+          id: '20:1',
+          name: 'Payment screen',
+          type: 'FRAME',
+          children: [
+            {
+              id: '20:2',
+              name: 'Pay button',
+              type: 'INSTANCE',
+              componentId: '1:4',
+              componentProperties: {
+                Size: { type: 'VARIANT', value: 'Medium' },
+                State: { type: 'VARIANT', value: 'Hover' },
+              },
+              overrides: [{ id: 'I20:2;1:5', overriddenFields: ['characters'] }],
+            },
+          ],
+        }],
+      });
+      const extractor = createExtractor(file);
+      const component = await extractor.extractComponent({
+        fileId: 'file',
+        componentId: '1:0',
+        includeInstances: true,
+      });
+
+      expect(component.instances).toEqual([{
+        id: '20:2',
+        name: 'Pay button',
+        page: 'Checkout',
+        path: ['Payment screen'],
+        variant: { id: '1:4', name: 'Size=Medium, State=Hover', properties: { Size: 'Medium', State: 'Hover' } },
+        overriddenLayers: [{ id: 'I20:2;1:5', fields: ['characters'] }],
+      }]);
+      expect(component.variants!.map(variant => variant.instanceCount)).toEqual([0, 0, 1]);
+    });
+
+    it('should omit variants when not requested', async () => {
+      const extractor = createExtractor(createFile([buttonSet]));
+      const component = await extractor.extractComponent({
+        fileId: 'file',
+        componentId: '1:0',
+        includeVariants: false,
+      });
+
+      expect(component.variants).toBeUndefined();
+    });
+
+    it('should key variant style deltas by property value', async () => {
+      const extractor = createExtractor(createFile([buttonSet]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '1:0' });
+
+      expect(specification.styling.baseStyles).toMatchObject({ width: '120px', backgroundColor: '#0000ff' });
+      expect(specification.styling.variants).toEqual({
+        'size.small': {
+          width: '80px',
+          height: '32px',
+          layers: { Label: { display: 'none' } },
+        },
+        'state.hover': {
+          backgroundColor: '#ff0000',
+        },
+      });
+    });
+
+    it('should resolve interaction states from the State variant property', async () => {
+      const set: FigmaNode = {
+        ...buttonSet,
+        children: [
+          ...buttonSet.children!,
+          { id: '1:6', name: 'Size=Small, State=Hover tooltip', type: 'COMPONENT' },
+        ],
+      };
+      const extractor = createExtractor(createFile([set]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '1:0' });
+
+      expect(specification.interactions!.hover).toMatchObject({
+        source: 'variant-property',
+        variantProperty: 'State',
+        variantName: 'Size=Medium, State=Hover',
+      });
+      expect(Object.keys(specification.styling.states)).toEqual(['hover', 'hover-tooltip']);
+      expect(specification.styling.states.hover.backgroundColor).toBe('#ff0000');
+    });
+  });
+
+  describe('auto-layout', () => {
+    const card: FigmaNode = {
+      id: '2:0',
+      name: 'Card',
+      type: 'COMPONENT',
+      absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+      layoutMode: 'HORIZONTAL',
+      paddingTop: 16,
+      paddingRight: 24,
+      paddingBottom: 16,
+      paddingLeft: 24,
+      itemSpacing: 8,
+      counterAxisSpacing: 12,
+      primaryAxisAlignItems: 'SPACE_BETWEEN',
+      counterAxisAlignItems: 'CENTER',
+      layoutWrap: 'WRAP',
+    };
+
+    it('should map auto-layout to spacing entries', async () => {
+      const extractor = createExtractor(createFile([card]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '2:0' });
+
+      expect(component.properties.spacing).toEqual([
+        { property: 'padding', top: 16, right: 24, bottom: 16, left: 24 },
+        { property: 'gap', left: 8, right: 8 },
+        { property: 'row-gap', top: 12, bottom: 12 },
+      ]);
+    });
+
+    it('should map auto-layout to flexbox base styles', async () => {
+      const extractor = createExtractor(createFile([card]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '2:0' });
+
+      expect(specification.styling.baseStyles).toMatchObject({
+        display: 'flex',
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: '12px 8px',
+        padding: '16px 24px 16px 24px',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      });
+    });
+
+    it('should leave spacing empty without auto-layout', async () => {
+      const extractor = createExtractor(createFile([{ ...card, layoutMode: 'NONE' }]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '2:0' });
+
+      expect(component.properties.spacing).toEqual([]);
+    });
+  });
+
+  describe('slots', () => {
+    const dialog: FigmaNode = {
+      id: '3:0',
+      name: 'Dialog',
+      type: 'COMPONENT',
+      componentPropertyDefinitions: {
+        'Show icon#3:1': { type: 'BOOLEAN', defaultValue: true },
+        'Leading icon#3:2': {
+          type: 'INSTANCE_SWAP',
+          defaultValue: '9:1',
+          preferredValues: [{ type: 'COMPONENT', key: 'star-key' }],
+        },
+      },
+      children: [
+        {
+          id: '3:3',
+          name: 'Icon',
+          type: 'INSTANCE',
+          componentPropertyReferences: { visible: 'Show icon#3:1', mainComponent: 'Leading icon#3:2' },
+        },
+        { id: '3:4', name: 'Slot/Body', type: 'INSTANCE' },
+        { id: '3:5', name: 'footer.slot', type: 'INSTANCE', componentPropertyReferences: { visible: 'Show icon#3:1' } },
+      ],
+    };
+
+    it('should infer slots from instance swap properties and slot layers', async () => {
+      const file = createFile([dialog]);
+      file.components = {
+        '9:1': { key: 'icon-key', name: 'Icon/Info', description: '', documentationLinks: [] },
+        '9:2': { key: 'star-key', name: 'Icon/Star', description: '', documentationLinks: [] },
+      };
+      const extractor = createExtractor(file);
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '3:0' });
+
+      expect(component.componentInterface.slots).toEqual([
+        {
+          name: 'leadingIcon',
+          description: 'Swappable instance, defaults to Icon/Info',
+          required: false,
+          allowedComponents: ['Icon/Star'],
+        },
+        expect.objectContaining({ name: 'body', required: true }),
+        expect.objectContaining({ name: 'footer', required: false }),
+      ]);
+    });
+  });
+
+  describe('documentation', () => {
+    const button: FigmaNode = { id: '4:0', name: 'Button', type: 'COMPONENT' };
+
+    const createDocumentedFile = () => {
+      const file = createFile([button]);
+      file.components = {
+        '4:0': {
+          key: 'button-key',
+          name: 'Button',
+          description: 'Use for the primary action on a page.\nDon\'t: place two primary buttons side by side\n\nDon\'ts:\n- Use for navigation',
+          documentationLinks: [{ uri: 'https://storybook.example.com/button' }],
+        },
+      };
+      return file;
+    };
+
+    it('should join descriptions and documentation links from file metadata', async () => {
+      const extractor = createExtractor(createDocumentedFile());
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '4:0' });
+      const { components } = await extractor.listComponents({ fileId: 'file' });
+
+      expect(component.description).toContain('Use for the primary action');
+      expect(component.documentationLinks).toEqual(['https://storybook.example.com/button']);
+      expect(components[0].documentationLinks).toEqual(['https://storybook.example.com/button']);
+    });
+
+    it('should turn descriptions into usage guidelines', async () => {
+      const extractor = createExtractor(createDocumentedFile());
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '4:0' });
+
+      expect(specification.usage).toEqual({
+        guidelines: ['Use for the primary action on a page.'],
+        examples: [],
+        doNot: ['Place two primary buttons side by side', 'Use for navigation'],
+        documentationLinks: ['https://storybook.example.com/button'],
+      });
+    });
+  });
+
+  describe('published status', () => {
+    const nodes: FigmaNode[] = [
+      { id: '5:0', name: 'Published', type: 'COMPONENT' },
+      { id: '5:1', name: 'Draft', type: 'COMPONENT' },
+    ];
+
+    it('should resolve published state and timestamps from the library endpoints', async () => {
+      const extractor = createExtractor(createFile(nodes), {
+        getFileComponents: jest.fn().mockResolvedValue({
+          meta: {
+            components: [{
+              key: 'published-key',
+              file_key: 'file',
+              node_id: '5:0',
+              name: 'Published',
+              description: '',
+              thumbnail_url: 'https://example.com/thumb.png',
+              created_at: '2023-06-01T00:00:00Z',
+              updated_at: '2023-07-01T00:00:00Z',
+            }],
+          },
+        }),
+      });
+
+      const { components } = await extractor.listComponents({ fileId: 'file' });
+
+      expect(components[0]).toMatchObject({
+        id: '5:0',
+        published: true,
+        lastModified: '2023-07-01T00:00:00Z',
+        thumbnail: 'https://example.com/thumb.png',
+      });
+      expect(components[1]).toMatchObject({
+        id: '5:1',
+        published: false,
+        lastModified: '2024-01-01T00:00:00Z',
+      });
+
+      const { components: published } = await extractor.listComponents({ fileId: 'file', filter: { published: true } });
+      expect(published.map(component => component.id)).toEqual(['5:0']);
+    });
+
+    it('should leave publish status unknown and warn when library data is unavailable', async () => {
+      const extractor = createExtractor(createFile(nodes), {
+        getFileComponents: jest.fn().mockRejectedValue(new Error('Forbidden')),
+      });
+
+      const page = await extractor.listComponents({ fileId: 'file' });
+
+      expect(page.components.every(component => component.published === undefined)).toBe(true);
+      expect(page.warnings).toEqual(['Publish status is unavailable because the library endpoints could not be reached']);
+
+      const filtered = await extractor.listComponents({ fileId: 'file', filter: { published: true } });
+      expect(filtered.components).toEqual([]);
+      expect(filtered.warnings![0]).toContain('the published filter matched nothing');
+    });
+
+    it('should check changes of requested component sets through the component set endpoint', async () => {
+      const file = createFile([
+        { id: '6:0', name: 'Button', type: 'COMPONENT_SET', children: [{ id: '6:1', name: 'Size=Small', type: 'COMPONENT' }] },
+        ...nodes,
+      ]);
+      file.lastModified = '2024-02-01T00:00:00Z';
+      file.components = { '5:0': { key: 'published-key', name: 'Published', description: '' } as any };
+      file.componentSets = { '6:0': { key: 'button-key', name: 'Button', description: '' } as any };
+      const published = (key: string, nodeId: string) => ({
+        meta: { key, file_key: 'file', node_id: nodeId, name: '', description: '', updated_at: '2023-07-01T00:00:00Z' },
+      });
+      const getComponent = jest.fn().mockResolvedValue(published('published-key', '5:0'));
+      const getComponentSet = jest.fn().mockResolvedValue(published('button-key', '6:0'));
+      const extractor = createExtractor(file, { getComponent, getComponentSet });
+
+      const changes = await extractor.checkChanges({
+        fileId: 'file',
+        lastSyncTimestamp: '2024-01-01T00:00:00Z',
+        componentIds: ['6:0', '5:0'],
+      });
+
+      expect(getComponentSet).toHaveBeenCalledWith('button-key');
+      expect(getComponent).toHaveBeenCalledWith('published-key');
+      expect(changes.hasChanges).toBe(false);
+      expect(changes.warnings).toBeUndefined();
+    });
+
+    it('should warn when published components cannot be looked up for change checks', async () => {
+      const file = createFile(nodes);
+      file.lastModified = '2024-02-01T00:00:00Z';
+      file.components = { '5:0': { key: 'published-key', name: 'Published', description: '' } as any };
+      const extractor = createExtractor(file, {
+        getComponent: jest.fn().mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 })),
+      });
+
+      const changes = await extractor.checkChanges({
+        fileId: 'file',
+        lastSyncTimestamp: '2024-01-01T00:00:00Z',
+        componentIds: ['5:0'],
+      });
+
+      expect(changes.changedComponents.map(component => component.id)).toEqual(['5:0']);
+      expect(changes.warnings).toEqual([
+        'Publish status is unavailable because the library endpoints could not be reached, so changes are based on the file modification time',
+      ]);
+    });
+  });
+
+  describe('token bindings', () => {
+    const tokenClient = {
+      getFileStyles: jest.fn().mockResolvedValue({
+        meta: {
+          styles: [
+            { key: 'primary-key', name: 'Color/Primary', style_type: 'FILL', node_id: 'S:1' },
+            { key: 'body-key', name: 'Text/Body', style_type: 'TEXT', node_id: 'S:2' },
+          ],
+        },
+      }),
+      getNodes: jest.fn().mockResolvedValue({
+        nodes: {
+          'S:1': { document: { id: 'S:1', name: 'Color/Primary', type: 'RECTANGLE', fills: [solid(0.1, 0.45, 0.91)] } },
+          'S:2': {
+            document: {
+              id: 'S:2',
+              name: 'Text/Body',
+              type: 'TEXT',
+              style: { fontFamily: 'Inter', fontSize: 14, fontWeight: 500, lineHeightPx: 20 },
+            },
+          },
+        },
+      }),
+      getLocalVariables: jest.fn().mockResolvedValue({
+        meta: {
+          variableCollections: [{ id: 'c1', name: 'Spacing', defaultModeId: 'm1' }],
+          variables: [
+            { id: 'VariableID:1:1', name: 'md', resolvedType: 'FLOAT', variableCollectionId: 'c1', valuesByMode: { m1: 16 } },
+            { id: 'VariableID:1:2', name: 'border', resolvedType: 'COLOR', variableCollectionId: 'c1', valuesByMode: { m1: { r: 0, g: 0, b: 0, a: 1 } } },
+          ],
+        },
+      }),
+    } as unknown as FigmaClient;
+
+    const chip: FigmaNode = {
+      id: '6:0',
+      name: 'Chip',
+      type: 'COMPONENT',
+      fills: [solid(0.1, 0.45, 0.91)],
+      strokes: [{ ...solid(0, 0, 0), boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'VariableID:1:2' } } }],
+      style: { fontFamily: 'Inter', fontSize: 14, fontWeight: 500 },
+      styles: { fill: 'S:1', text: 'S:2' },
+      layoutMode: 'HORIZONTAL',
+      paddingTop: 16,
+      paddingRight: 16,
+      paddingBottom: 16,
+      paddingLeft: 16,
+      boundVariables: {
+        paddingTop: { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' },
+        paddingRight: { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' },
+        paddingBottom: { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' },
+        paddingLeft: { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' },
+      },
+    };
+
+    it('should bind styles and variables to token names', async () => {
+      const file = createFile([chip]);
+      file.styles = {
+        'S:1': { key: 'primary-key', name: 'Color/Primary', description: '', styleType: 'FILL' },
+        'S:2': { key: 'body-key', name: 'Text/Body', description: '', styleType: 'TEXT' },
+      };
+      const client = {
+        getNodes: jest.fn().mockImplementation(async (_fileId: string, ids: string[]) => nodesResponse(file, ids)),
+      } as unknown as FigmaClient;
+      const cache = new CacheService();
+      const extractor = new ComponentExtractor(client, cache, new DesignTokenExtractor(tokenClient, cache));
+
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '6:0' });
+
+      expect(component.properties.colors[0].token).toBe('color-primary');
+      expect(component.properties.colors[1].token).toBe('spacing-border');
+      expect(component.properties.typography[0].token).toBe('text-body');
+      expect(component.properties.spacing[0].token).toBe('spacing-md');
+    });
+  });
+
+  describe('states', () => {
+    it('should fall back to layer names when there are no variants', async () => {
+      const input: FigmaNode = {
+        id: '7:0',
+        name: 'Input',
+        type: 'COMPONENT',
+        children: [
+          { id: '7:1', name: 'Focus ring', type: 'RECTANGLE', strokes: [solid(0, 0, 1)] },
+        ],
+      };
+      const extractor = createExtractor(createFile([input]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '7:0' });
+
+      expect(specification.interactions!.focus).toMatchObject({
+        source: 'layer-name',
+        layerName: 'Focus ring',
+      });
+    });
+  });
+
+  describe('responsive', () => {
+    const banner: FigmaNode = {
+      id: '8:0',
+      name: 'Banner',
+      type: 'COMPONENT_SET',
+      minWidth: 280,
+      maxWidth: 1200,
+      children: [
+        {
+          id: '8:1',
+          name: 'Breakpoint=Mobile',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 120 },
+          layoutSizingVertical: 'HUG',
+        },
+        {
+          id: '8:2',
+          name: 'Breakpoint=Tablet',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 400, y: 0, width: 600, height: 120 },
+          layoutSizingVertical: 'HUG',
+        },
+        {
+          id: '8:3',
+          name: 'Breakpoint=Desktop',
+          type: 'COMPONENT',
+          absoluteBoundingBox: { x: 1100, y: 0, width: 1200, height: 120 },
+          layoutSizingHorizontal: 'FILL',
+          layoutSizingVertical: 'HUG',
+          maxWidth: 1200,
+        },
+      ],
+    };
+
+    it('should emit media queries for breakpoint variants', async () => {
+      const extractor = createExtractor(createFile([banner]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '8:0' });
+
+      expect(specification.styling.baseStyles).toMatchObject({ width: '320px', height: 'fit-content' });
+      expect(specification.styling.variants).toEqual({});
+      expect(specification.styling.responsive).toEqual({
+        '@media (min-width: 768px)': { width: '600px' },
+        '@media (min-width: 1024px)': { width: '100%', maxWidth: '1200px' },
+      });
+      expect(specification.styling.breakpoints).toEqual({
+        '@media (min-width: 768px)': 'Tablet',
+        '@media (min-width: 1024px)': 'Desktop',
+      });
+    });
+
+    it('should order desktop-first queries widest first and diff each against the previous one', async () => {
+      const layout = { layoutMode: 'HORIZONTAL' as const, layoutSizingVertical: 'HUG' as const };
+      const hero: FigmaNode = {
+        id: '8:10',
+        name: 'Hero',
+        type: 'COMPONENT_SET',
+        componentPropertyDefinitions: {
+          Breakpoint: { type: 'VARIANT', defaultValue: 'Desktop', variantOptions: ['Mobile', 'Tablet', 'Desktop'] },
+        },
+        children: [
+          {
+            id: '8:11',
+            name: 'Breakpoint=Mobile',
+            type: 'COMPONENT',
+            ...layout,
+            itemSpacing: 16,
+            absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 120 },
+          },
+          {
+            id: '8:12',
+            name: 'Breakpoint=Tablet',
+            type: 'COMPONENT',
+            ...layout,
+            itemSpacing: 8,
+            absoluteBoundingBox: { x: 400, y: 0, width: 600, height: 120 },
+          },
+          {
+            id: '8:13',
+            name: 'Breakpoint=Desktop',
+            type: 'COMPONENT',
+            ...layout,
+            itemSpacing: 16,
+            layoutSizingHorizontal: 'FILL',
+            absoluteBoundingBox: { x: 1100, y: 0, width: 1200, height: 120 },
+          },
+        ],
+      };
+      const extractor = createExtractor(createFile([hero]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '8:10' });
+      const responsive = specification.styling.responsive!;
+
+      expect(Object.keys(responsive)).toEqual(['@media (max-width: 1023px)', '@media (max-width: 767px)']);
+      expect(responsive['@media (max-width: 1023px)']).toMatchObject({ width: '600px', gap: '8px' });
+      // Mobile matches Desktop's spacing, so it has to undo Tablet's override
+      expect(responsive['@media (max-width: 767px)']).toEqual({ width: '320px', gap: '16px' });
+      expect(specification.styling.breakpoints).toEqual({
+        '@media (max-width: 1023px)': 'Tablet',
+        '@media (max-width: 767px)': 'Mobile',
+      });
+    });
+
+    it('should report minimum and maximum widths in dimensions', async () => {
+      const extractor = createExtractor(createFile([banner]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '8:0' });
+
+      expect(component.properties.dimensions).toMatchObject({ minWidth: 280, maxWidth: 1200 });
+    });
+  });
+
+  describe('paints', () => {
+    const hero: FigmaNode = {
+      id: '9:0',
+      name: 'Hero',
+      type: 'COMPONENT',
+      fills: [
+        solid(1, 1, 1),
+        { type: 'IMAGE', imageRef: 'abc123', scaleMode: 'FIT' },
+        {
+          type: 'GRADIENT_LINEAR',
+          opacity: 0.5,
+          gradientHandlePositions: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }],
+          gradientStops: [
+            { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+          ],
+        },
+        { ...solid(0, 0, 0), visible: false },
+      ],
+    };
+
+    it('should stack visible fills as layered backgrounds', async () => {
+      const extractor = createExtractor(createFile([hero]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '9:0' });
+
+      expect(specification.styling.baseStyles).toMatchObject({
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        backgroundImage: 'linear-gradient(90deg, rgba(255, 0, 0, 0.5) 0%, rgba(0, 0, 255, 0.5) 100%)',
+      });
+      expect(specification.styling.baseStyles.backgroundSize).toBeUndefined();
+    });
+
+    it('should keep image fills as references instead of unresolved urls', async () => {
+      const extractor = createExtractor(createFile([{
+        id: '9:2',
+        name: 'Avatar',
+        type: 'COMPONENT_SET',
+        componentPropertyDefinitions: {
+          Kind: { type: 'VARIANT', defaultValue: 'Initials', variantOptions: ['Initials', 'Photo'] },
+        },
+        children: [
+          { id: '9:3', name: 'Kind=Initials', type: 'COMPONENT', fills: [solid(0, 0, 1)] },
+          { id: '9:4', name: 'Kind=Photo', type: 'COMPONENT', fills: [{ type: 'IMAGE', imageRef: 'abc123', scaleMode: 'FIT' }] },
+        ],
+      }]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '9:2' });
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '9:2' });
+
+      expect(component.variants![1].overrides.fills).toEqual([
+        { type: 'IMAGE', imageRef: 'abc123', scaleMode: 'FIT', opacity: 1 },
+      ]);
+      expect(JSON.stringify(specification.styling)).not.toContain('abc123');
+    });
+
+    it('should convert radial and angular gradients', async () => {
+      const stops = [
+        { position: 0, color: { r: 0, g: 0, b: 0, a: 1 } },
+        { position: 1, color: { r: 1, g: 1, b: 1, a: 0 } },
+      ];
+      const handles = [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }];
+      const extractor = createExtractor(createFile([{
+        id: '9:1',
+        name: 'Orb',
+        type: 'COMPONENT',
+        fills: [
+          { type: 'GRADIENT_RADIAL', gradientStops: stops, gradientHandlePositions: handles },
+          { type: 'GRADIENT_ANGULAR', gradientStops: stops, gradientHandlePositions: handles },
+        ],
+      }]));
+
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '9:1' });
+
+      expect(component.properties.colors).toEqual([
+        expect.objectContaining({
+          type: 'gradient',
+          value: 'radial-gradient(ellipse at 50% 50%, rgba(0, 0, 0, 1) 0%, rgba(255, 255, 255, 0) 100%)',
+        }),
+        expect.objectContaining({
+          type: 'gradient',
+          value: 'conic-gradient(from 90deg at 50% 50%, rgba(0, 0, 0, 1) 0%, rgba(255, 255, 255, 0) 100%)',
+        }),
+      ]);
+    });
+
+    it('should fold the paint opacity of a single solid fill into the background color', async () => {
+      const extractor = createExtractor(createFile([
+        { id: '9:2', name: 'Scrim', type: 'COMPONENT', fills: [{ ...solid(0, 0, 0), opacity: 0.5 }] },
+        { id: '9:3', name: 'Hit area', type: 'COMPONENT', fills: [{ ...solid(1, 0, 0), opacity: 0 }] },
+      ]));
+
+      const scrim = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '9:2' });
+      const hitArea = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '9:3' });
+
+      expect(scrim.styling.baseStyles.backgroundColor).toBe('rgba(0, 0, 0, 0.5)');
+      expect(hitArea.styling.baseStyles.backgroundColor).toBe('rgba(255, 0, 0, 0)');
+      expect(hitArea.styling.baseStyles).not.toHaveProperty('backgroundOpacity');
+    });
+  });
+
+  describe('anatomy', () => {
+    const chip: FigmaNode = {
+      id: '10:0',
+      name: 'Chip',
+      type: 'COMPONENT',
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 4,
+      componentPropertyDefinitions: {
+        'Show icon#10:9': { type: 'BOOLEAN', defaultValue: true },
+        'Label#10:8': { type: 'TEXT', defaultValue: 'Chip' },
+      },
+      children: [
+        {
+          id: '10:1',
+          name: 'Leading',
+          type: 'INSTANCE',
+          componentId: '99:1',
+          componentPropertyReferences: { visible: 'Show icon#10:9' },
+        },
+        {
+          id: '10:2',
+          name: 'Wrapper',
+          type: 'GROUP',
+          children: [
+            {
+              id: '10:3',
+              name: 'Label',
+              type: 'TEXT',
+              characters: 'Chip',
+              componentPropertyReferences: { characters: 'Label#10:8' },
+            },
+          ],
+        },
+        {
+          id: '10:4',
+          name: 'Badge',
+          type: 'FRAME',
+          fills: [solid(1, 0, 0)],
+          children: [
+            { id: '10:5', name: 'Dot', type: 'ELLIPSE' },
+          ],
+        },
+        { id: '10:6', name: 'Hidden decoration', type: 'RECTANGLE', visible: false },
+      ],
+    };
+
+    it('should build an ordered tree of meaningful layers', async () => {
+      const extractor = createExtractor(createFile([chip]));
+      const specification = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '10:0' });
+
+      expect(specification.anatomy).toEqual({
+        id: '10:0',
+        name: 'Chip',
+        role: 'container',
+        layout: expect.objectContaining({ display: 'flex', gap: '4px' }),
+        children: [
+          {
+            id: '10:1',
+            name: 'Leading',
+            role: 'instance',
+            componentId: '99:1',
+            controlledBy: { visible: 'Show icon' },
+          },
+          {
+            id: '10:3',
+            name: 'Label',
+            role: 'text',
+            characters: 'Chip',
+            controlledBy: { characters: 'Label' },
+          },
+          {
+            id: '10:4',
+            name: 'Badge',
+            role: 'icon',
+          },
+        ],
+      });
+    });
+
+    it('should map component properties to the layers they control', async () => {
+      const extractor = createExtractor(createFile([chip]));
+      const component = await extractor.extractComponent({ fileId: 'file', componentId: '10:0' });
+
+      expect(component.componentInterface.props).toEqual([
+        {
+          name: 'Show icon',
+          type: 'boolean',
+          required: false,
+          default: true,
+          description: 'Toggles the visibility of "Leading"',
+          controls: [{ layerId: '10:1', layerName: 'Leading', field: 'visible' }],
+        },
+        {
+          name: 'Label',
+          type: 'string',
+          required: false,
+          default: 'Chip',
+          description: 'Sets the text content of "Label"',
+          controls: [{ layerId: '10:3', layerName: 'Label', field: 'characters' }],
+        },
+      ]);
+    });
+  });
+
+  describe('dependencies', () => {
+    const file = createFile([
+      {
+        id: '3:0',
+        name: 'Card',
+        type: 'COMPONENT',
+        children: [
+          { id: '3:1', name: 'Action', type: 'INSTANCE', componentId: '1:2' },
+          { id: '3:2', name: 'Badge', type: 'INSTANCE', componentId: '9:9' },
+        ],
+      },
+      {
+        id: '1:0',
+        name: 'Button',
+        type: 'COMPONENT_SET',
+        children: [
+          {
+            id: '1:1',
+            name: 'Size=Small',
+            type: 'COMPONENT',
+            children: [{ id: '1:3', name: 'Icon', type: 'INSTANCE', componentId: '2:0' }],
+          },
+          { id: '1:2', name: 'Size=Medium', type: 'COMPONENT' },
+        ],
+      },
+      { id: '2:0', name: 'Icon', type: 'COMPONENT' },
+    ]);
+    file.components = { '9:9': { key: 'badge-key', name: 'Badge', description: '' } } as any;
+
+    it('should order leaf components first and maps variant instances to their set', async () => {
+      const graph = await createExtractor(file).getDependencyGraph({ fileId: 'file' });
+
+      expect(graph.nodes['3:0'].dependencies).toEqual(['1:0']);
+      expect(graph.nodes['3:0'].externalDependencies).toEqual([
+        { componentId: '9:9', name: 'Badge', key: 'badge-key' },
+      ]);
+      expect(graph.nodes['1:0'].dependencies).toEqual(['2:0']);
+      expect(graph.nodes['2:0'].dependents).toEqual(['1:0']);
+      expect(graph.order.indexOf('2:0')).toBeLessThan(graph.order.indexOf('1:0'));
+      expect(graph.order.indexOf('1:0')).toBeLessThan(graph.order.indexOf('3:0'));
+      expect(graph.cyclic).toEqual([]);
+    });
+
+    it('should narrow the graph to a component and its transitive dependencies', async () => {
+      const graph = await createExtractor(file).getDependencyGraph({ fileId: 'file', componentId: '1:0' });
+
+      expect(Object.keys(graph.nodes).sort()).toEqual(['1:0', '2:0']);
+      expect(graph.order).toEqual(['2:0', '1:0']);
+    });
+  });
+
+  describe('node loading', () => {
+    const file = createFile([
+      {
+        id: '1:0',
+        name: 'Button',
+        type: 'COMPONENT',
+        children: [{ id: '1:1', name: 'Label', type: 'TEXT', characters: 'Button' }],
+      },
+      { id: '2:0', name: 'Icon', type: 'COMPONENT' },
+    ]);
+
+    it('should fetch a single component through the nodes endpoint', async () => {
+      const getFile = jest.fn().mockResolvedValue(file);
+      const getNodes = jest.fn().mockImplementation(async (_fileId: string, ids: string[]) => nodesResponse(file, ids));
+      const extractor = createExtractor(file, { getFile, getNodes });
+
+      const spec = await extractor.extractComponentSpecification({ fileId: 'file', componentId: '1:0' });
+
+      expect(spec.component.name).toBe('Button');
+      expect(getNodes).toHaveBeenCalledTimes(1);
+      expect(getNodes).toHaveBeenCalledWith('file', ['1:0']);
+      expect(getFile).not.toHaveBeenCalled();
+    });
+
+    it('should report components missing from the nodes response', async () => {
+      await expect(
+        createExtractor(file).extractComponent({ fileId: 'file', componentId: '9:9' })
+      ).rejects.toThrow('Component 9:9 not found in file file');
+    });
+
+    it('should share one document download across list operations and lookups', async () => {
+      const getFile = jest.fn().mockResolvedValue(file);
+      const getNodes = jest.fn();
+      const extractor = createExtractor(file, { getFile, getNodes });
+
+      await extractor.listComponents({ fileId: 'file' });
+      await extractor.getDependencyGraph({ fileId: 'file' });
+      await extractor.extractComponent({ fileId: 'file', componentId: '2:0' });
+
+      expect(getFile).toHaveBeenCalledTimes(1);
+      expect(getNodes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pagination', () => {
+    const file = createFile([
+      { id: '1:0', name: 'Tooltip', type: 'COMPONENT' },
+      { id: '2:0', name: 'Avatar', type: 'COMPONENT' },
+      {
+        id: '3:0',
+        name: 'Button',
+        type: 'COMPONENT_SET',
+        children: [
+          { id: '3:1', name: 'Size=Small', type: 'COMPONENT' },
+          { id: '3:2', name: 'Size=Large', type: 'COMPONENT' },
+        ],
+      },
+      { id: '4:0', name: 'Card', type: 'COMPONENT' },
+    ]);
+
+    it('should page through components with a cursor', async () => {
+      const extractor = createExtractor(file);
+
+      const first = await extractor.listComponents({ fileId: 'file', limit: 3, sortBy: 'name' });
+      expect(first.components.map(c => c.name)).toEqual(['Avatar', 'Button', 'Card']);
+      expect(first.totalCount).toBe(6);
+      expect(first.hasMore).toBe(true);
+
+      const second = await extractor.listComponents({ fileId: 'file', limit: 3, sortBy: 'name', cursor: first.nextCursor });
+      expect(second.components.map(c => c.name)).toEqual(['Size=Large', 'Size=Small', 'Tooltip']);
+      expect(second.hasMore).toBe(false);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should keep document order by default and support offsets', async () => {
+      const { components, hasMore } = await createExtractor(file).listComponents({ fileId: 'file', offset: 1, limit: 2 });
+
+      expect(components.map(c => c.id)).toEqual(['2:0', '3:0']);
+      expect(components[0].page).toBe('Components');
+      expect(hasMore).toBe(true);
+    });
+
+    it('should sort component sets by variant count', async () => {
+      const { components } = await createExtractor(file).listComponents({ fileId: 'file', sortBy: 'variantCount', limit: 1 });
+
+      expect(components[0].id).toBe('3:0');
+    });
+
+    it('should reject cursors from a different sort order', async () => {
+      const extractor = createExtractor(file);
+      const { nextCursor } = await extractor.listComponents({ fileId: 'file', limit: 1, sortBy: 'name' });
+
+      await expect(
+        extractor.listComponents({ fileId: 'file', limit: 1, sortBy: 'page', cursor: nextCursor })
+      ).rejects.toThrow('Cursor was created for sortBy "name"');
+    });
+  });
+
+  describe('filters', () => {
+    const file: FigmaFile = {
+      ...createFile([]),
+      document: {
+        id: '0:0',
+        name: 'Document',
+        type: 'DOCUMENT',
+        children: [
+          {
+            id: '0:1',
+            name: 'Forms',
+            type: 'CANVAS',
+            children: [
+              {
+                id: '10:0',
+                name: 'Inputs',
+                type: 'FRAME',
+                children: [
+                  {
+                    id: '1:0',
+                    name: 'Input/Text',
+                    type: 'COMPONENT_SET',
+                    componentPropertyDefinitions: {
+                      State: { type: 'VARIANT', defaultValue: 'Default', variantOptions: ['Default'] },
+                      'Placeholder#1:2': { type: 'TEXT', defaultValue: 'Email' },
+                    },
+                    children: [{ id: '1:1', name: 'State=Default', type: 'COMPONENT' }],
+                  },
+                  { id: '2:0', name: 'Input/Checkbox', type: 'COMPONENT' },
+                ],
+              },
+            ],
+          },
+          {
+            id: '0:2',
+            name: 'Navigation',
+            type: 'CANVAS',
+            children: [{ id: '3:0', name: 'Tabs', type: 'COMPONENT' }],
+          },
+        ],
+      },
+    };
+    file.componentSets = { '1:0': { key: 'input', name: 'Input/Text', description: 'Single line form field' } } as any;
+
+    const list = async (filter: Record<string, any>) =>
+      (await createExtractor(file).listComponents({ fileId: 'file', filter })).components.map(c => c.id);
+
+    it('should record page, frame path, group and property names', async () => {
+      const { components } = await createExtractor(file).listComponents({ fileId: 'file' });
+      const [textInput, variant] = components;
+
+      expect(textInput).toMatchObject({
+        page: 'Forms',
+        path: ['Inputs'],
+        group: 'Input',
+        propertyNames: ['State', 'Placeholder'],
+      });
+      expect(variant).toMatchObject({ page: 'Forms', path: ['Inputs', 'Input/Text'] });
+    });
+
+    it('should filter by page, path prefix and group', async () => {
+      expect(await list({ page: 'forms', type: 'COMPONENT_SET' })).toEqual(['1:0']);
+      expect(await list({ page: 'Navigation' })).toEqual(['3:0']);
+      expect(await list({ pathPrefix: 'Inputs/Input/Text' })).toEqual(['1:1']);
+      expect(await list({ pathPrefix: 'Input' })).toEqual([]);
+      expect(await list({ group: 'Input' })).toEqual(['1:0', '2:0']);
+    });
+
+    it('should filter by description, variants and property names', async () => {
+      expect(await list({ description: 'form field' })).toEqual(['1:0']);
+      expect(await list({ hasVariants: true })).toEqual(['1:0']);
+      expect(await list({ propertyNames: ['placeholder', 'State'], type: 'COMPONENT_SET' })).toEqual(['1:0']);
+      expect(await list({ propertyNames: ['Icon'] })).toEqual([]);
+    });
+  });
+
+  describe('search', () => {
+    const file = createFile([
+      {
+        id: '10:0',
+        name: 'Actions',
+        type: 'FRAME',
+        children: [
+          {
+            id: '1:0',
+            name: 'Button',
+            type: 'COMPONENT_SET',
+            componentPropertyDefinitions: {
+              Variant: { type: 'VARIANT', defaultValue: 'Primary', variantOptions: ['Primary', 'Secondary'] },
+            },
+            children: [
+              {
+                id: '1:1',
+                name: 'Variant=Primary',
+                type: 'COMPONENT',
+                children: [{ id: '1:2', name: 'Label', type: 'TEXT', characters: 'Get started' }],
+              },
+            ],
+          },
+        ],
+      },
+      { id: '2:0', name: 'Inputs/DatePicker', type: 'COMPONENT' },
+      { id: '3:0', name: 'Banner', type: 'COMPONENT' },
+    ]);
+    file.componentSets = { '1:0': { key: 'button', name: 'Button', description: 'Main call to action (CTA)' } } as any;
+
+    it('should rank components by fuzzy matches across fields', async () => {
+      const { results } = await createExtractor(file).searchComponents({ fileId: 'file', query: 'the primary CTA' });
+
+      expect(results[0].component.id).toBe('1:0');
+      expect(results[0].matches).toEqual(expect.arrayContaining([
+        { field: 'variantValues', value: 'Primary', terms: ['primary'] },
+        { field: 'description', value: 'Main call to action (CTA)', terms: ['cta'] },
+      ]));
+      expect(results.map(r => r.component.id)).not.toContain('3:0');
+    });
+
+    it('should match names across word boundaries and tolerate typos', async () => {
+      const extractor = createExtractor(file);
+
+      const { results: phrase } = await extractor.searchComponents({ fileId: 'file', query: 'date picker' });
+      expect(phrase[0].component.id).toBe('2:0');
+      expect(phrase[0].score).toBeGreaterThan(1);
+
+      const { results: typo } = await extractor.searchComponents({ fileId: 'file', query: 'buton' });
+      expect(typo[0].component.id).toBe('1:0');
+    });
+
+    it('should search text content inside the component', async () => {
+      const { results } = await createExtractor(file).searchComponents({ fileId: 'file', query: 'started', limit: 1 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].matches[0]).toEqual({ field: 'text', value: 'Get started', terms: ['started'] });
+    });
+  });
+
+  describe('node resolution', () => {
+    const file = createFile([
+      {
+        id: '1:0',
+        name: 'Button',
+        type: 'COMPONENT_SET',
+        children: [
+          { id: '1:1', name: 'Size=Small', type: 'COMPONENT' },
+          { id: '1:2', name: 'Size=Large', type: 'COMPONENT' },
+        ],
+      },
+      {
+        id: '5:0',
+        name: 'Checkout',
+        type: 'FRAME',
+        children: [
+          { id: '5:1', name: 'Pay', type: 'INSTANCE', componentId: '1:2' },
+          { id: '5:2', name: 'Cancel', type: 'INSTANCE', componentId: '1:2' },
+          { id: '5:3', name: 'Logo', type: 'INSTANCE', componentId: '9:9' },
+          { id: '5:4', name: 'Total', type: 'TEXT', characters: '$42' },
+        ],
+      },
+    ]);
+    file.components = {
+      '1:1': { key: 'small', name: 'Size=Small', description: '', componentSetId: '1:0', documentationLinks: [] },
+      '1:2': { key: 'large', name: 'Size=Large', description: '', componentSetId: '1:0', documentationLinks: [] },
+      '9:9': { key: 'logo', name: 'Logo', description: '', remote: true, documentationLinks: [] },
+    };
+
+    it('should resolve variants to their component set', async () => {
+      const resolved = await createExtractor(file).resolveNode({ fileId: 'file', nodeId: '1-1' });
+
+      expect(resolved).toMatchObject({
+        nodeId: '1:1',
+        kind: 'variant',
+        componentId: '1:0',
+        variant: { id: '1:1', properties: { Size: 'Small' } },
+      });
+      expect(resolved.component?.id).toBe('1:0');
+    });
+
+    it('should resolve instances to their main component', async () => {
+      const extractor = createExtractor(file);
+
+      const local = await extractor.resolveNode({ fileId: 'file', nodeId: '5:1', detail: 'specification' });
+      expect(local).toMatchObject({
+        kind: 'instance',
+        componentId: '1:0',
+        mainComponent: { id: '1:2', local: true },
+        variant: { properties: { Size: 'Large' } },
+      });
+      expect(local.specification?.component.id).toBe('1:0');
+
+      const remote = await extractor.resolveNode({ fileId: 'file', nodeId: '5:3' });
+      expect(remote.mainComponent).toEqual({ id: '9:9', name: 'Logo', key: 'logo', local: false });
+      expect(remote.componentId).toBeUndefined();
+      expect(remote.component).toBeUndefined();
+    });
+
+    it('should summarize the components used inside frames', async () => {
+      const resolved = await createExtractor(file).resolveNode({ fileId: 'file', nodeId: '5:0' });
+
+      expect(resolved.kind).toBe('frame');
+      expect(resolved.contents).toEqual({
+        components: [],
+        instances: [
+          { componentId: '1:2', name: 'Size=Large', count: 2 },
+          { componentId: '9:9', name: 'Logo', count: 1 },
+        ],
+      });
+    });
+
+    it('should report other layers as plain layers without contents', async () => {
+      const resolved = await createExtractor(file).resolveNode({ fileId: 'file', nodeId: '5:4' });
+
+      expect(resolved).toEqual({ nodeId: '5:4', name: 'Total', nodeType: 'TEXT', kind: 'layer' });
+    });
+  });
+});
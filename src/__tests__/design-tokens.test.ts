@@ -0,0 +1,576 @@
+import { DesignTokenExtractor, FormattedTokens } from '../extractors/design-tokens';
+import { CacheService } from '../services/cache';
+import { FigmaClient } from '../figma/client';
+
+// Style fixtures hold the /styles metadata plus the properties of each style's definition node
+const createClient = (styles: any[], variables: any[] = [], variableCollections: any[] = []) => {
+  const nodes = new Map(styles.map(({ key, name, style_type, description, ...node }, index) => [
+    `${index + 1}:1`,
+    { id: `${index + 1}:1`, name, type: style_type === 'TEXT' ? 'TEXT' : 'RECTANGLE', ...node },
+  ]));
+  const metadata = styles.map(({ key, name, style_type, description }, index) => ({
+    key,
+    name,
+    style_type,
+    description,
+    node_id: `${index + 1}:1`,
+  }));
+
+  return {
+    getFileStyles: jest.fn().mockResolvedValue({ meta: { styles: metadata } }),
+    getNodes: jest.fn().mockImplementation(async (_fileId: string, ids: string[]) => ({
+      nodes: Object.fromEntries(ids.map(id => [id, nodes.has(id) ? { document: nodes.get(id) } : null])),
+    })),
+    getLocalVariables: jest.fn().mockResolvedValue({ meta: { variables, variableCollections } }),
+  };
+};
+
+const createExtractor = (styles: any[], variables: any[] = [], variableCollections: any[] = []) =>
+  new DesignTokenExtractor(createClient(styles, variables, variableCollections) as unknown as FigmaClient, new CacheService());
+
+const styles = [
+  {
+    key: 'primary',
+    name: 'Color/Primary',
+    style_type: 'FILL',
+    fills: [{ type: 'SOLID', color: { r: 0, g: 0.4, b: 1, a: 1 } }],
+  },
+  {
+    key: 'body',
+    name: 'Text/Body',
+    style_type: 'TEXT',
+    style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 24, letterSpacing: 0 },
+  },
+  {
+    key: 'shadow',
+    name: 'Shadow/Card',
+    style_type: 'EFFECT',
+    effects: [{ type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8 }],
+  },
+];
+
+const variableCollections = [
+  {
+    id: 'c1',
+    name: 'Theme',
+    defaultModeId: 'm1',
+    modes: [{ modeId: 'm1', name: 'Light' }, { modeId: 'm2', name: 'Dark' }],
+  },
+  { id: 'c2', name: 'Spacing', defaultModeId: 's1', modes: [{ modeId: 's1', name: 'Default' }] },
+];
+
+const variables = [
+  {
+    id: 'VariableID:1',
+    name: 'surface',
+    resolvedType: 'COLOR',
+    variableCollectionId: 'c1',
+    valuesByMode: {
+      m1: { r: 1, g: 1, b: 1, a: 1 },
+      m2: { r: 0, g: 0, b: 0, a: 1 },
+    },
+  },
+  {
+    id: 'VariableID:2',
+    name: 'text',
+    resolvedType: 'COLOR',
+    variableCollectionId: 'c1',
+    valuesByMode: {
+      m1: { r: 0, g: 0, b: 0, a: 1 },
+      m2: { type: 'VARIABLE_ALIAS', id: 'VariableID:1' },
+    },
+  },
+  {
+    id: 'VariableID:3',
+    name: 'spacing-md',
+    resolvedType: 'FLOAT',
+    variableCollectionId: 'c2',
+    valuesByMode: { s1: 16 },
+  },
+];
+
+describe('DesignTokenExtractor', () => {
+  describe('css-variables format', () => {
+    it('should emit colors, composite typography and box shadows on :root', async () => {
+      const result = await createExtractor(styles).extractTokens({
+        fileId: 'file',
+        format: 'css-variables',
+      }) as FormattedTokens;
+
+      expect(result.format).toBe('css-variables');
+      expect(result.content).toContain(':root {');
+      expect(result.content).toContain('  --color-primary: #0066ff;');
+      expect(result.content).toContain('  --text-body: 400 16px/24px "Inter";');
+      expect(result.content).toContain('  --text-body-line-height: 24px;');
+      expect(result.content).toContain('  --shadow-card: 0px 4px 8px 0px rgba(0, 0, 0, 0.25);');
+    });
+
+    it('should turn variable modes into data-theme blocks', async () => {
+      const result = await createExtractor([], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'css-variables',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain([
+        ':root {',
+        '  --theme-surface: #ffffff;',
+        '  --theme-text: #000000;',
+        '  --spacing-spacing-md: 16px;',
+        '}',
+      ].join('\n'));
+      expect(result.content).toContain([
+        '[data-theme="dark"] {',
+        '  --theme-surface: #000000;',
+        '  --theme-text: var(--theme-surface);',
+        '}',
+      ].join('\n'));
+      expect(result.content).not.toContain('[data-theme="light"]');
+      expect(result.tokenCount).toBe(3);
+    });
+
+    it('should keep returning token JSON for the standard format', async () => {
+      const result = await createExtractor([], variables, variableCollections).extractTokens({ fileId: 'file' });
+
+      expect('content' in result).toBe(false);
+      const surface = (result as any).variables.find((token: any) => token.name === 'theme-surface');
+      expect(surface.modes).toEqual({ Light: '#ffffff', Dark: '#000000' });
+      expect(surface.defaultMode).toBe('Light');
+    });
+  });
+
+  describe('dtcg format', () => {
+    it('should nest tokens by their slash-separated names', async () => {
+      const result = await createExtractor(styles).extractTokens({ fileId: 'file', format: 'dtcg' }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Color.Primary).toEqual({
+        $value: '#0066ff',
+        $type: 'color',
+        $extensions: { 'com.figma': { styleKey: 'primary' } },
+      });
+      expect(document.Text.Body.$type).toBe('typography');
+      expect(document.Text.Body.$value).toEqual({
+        fontFamily: 'Inter',
+        fontSize: '16px',
+        fontWeight: 400,
+        letterSpacing: '0px',
+        lineHeight: 1.5,
+      });
+      expect(document.Shadow.Card).toMatchObject({
+        $type: 'shadow',
+        $value: { color: 'rgba(0, 0, 0, 0.25)', offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px' },
+      });
+    });
+
+    it('should keep variable aliases as references and modes as extensions', async () => {
+      const result = await createExtractor([], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'dtcg',
+      }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Theme.text.$extensions['com.figma']).toEqual({
+        variableId: 'VariableID:2',
+        defaultMode: 'Light',
+        modes: { Light: '#000000', Dark: '{Theme.surface}' },
+      });
+      expect(document.Spacing['spacing-md']).toMatchObject({ $value: '16px', $type: 'dimension' });
+    });
+
+    it('should skip tokens and modes whose aliases point outside the file', async () => {
+      const result = await createExtractor([], [
+        ...variables,
+        {
+          id: 'VariableID:4',
+          name: 'brand',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c1',
+          valuesByMode: {
+            m1: { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' },
+            m2: { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' },
+          },
+        },
+        {
+          id: 'VariableID:5',
+          name: 'accent',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c1',
+          valuesByMode: {
+            m1: { type: 'VARIABLE_ALIAS', id: 'VariableID:4' },
+            m2: { r: 1, g: 0, b: 0, a: 1 },
+          },
+        },
+        {
+          id: 'VariableID:6',
+          name: 'border',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c1',
+          valuesByMode: {
+            m1: { r: 0, g: 0, b: 0, a: 1 },
+            m2: { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' },
+          },
+        },
+      ], variableCollections).extractTokens({ fileId: 'file', format: 'dtcg' }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Theme.brand).toBeUndefined();
+      expect(document.Theme.accent).toBeUndefined();
+      expect(document.Theme.border.$value).toBe('#000000');
+      expect(document.Theme.border.$extensions['com.figma'].modes).toEqual({ Light: '#000000' });
+    });
+
+    it('should move tokens that are also groups to DEFAULT', async () => {
+      const result = await createExtractor([
+        { key: 'blue', name: 'Blue', style_type: 'FILL', fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } }] },
+        { key: 'light', name: 'Blue/Light', style_type: 'FILL', fills: [{ type: 'SOLID', color: { r: 0.5, g: 0.5, b: 1, a: 1 } }] },
+      ]).extractTokens({ fileId: 'file', format: 'dtcg' }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Blue.DEFAULT.$value).toBe('#0000ff');
+      expect(document.Blue.Light.$value).toBe('#8080ff');
+    });
+  });
+
+  describe('tailwind format', () => {
+    it('should place tokens under theme.extend sections', async () => {
+      const result = await createExtractor(styles).extractTokens({ fileId: 'file', format: 'tailwind' }) as FormattedTokens;
+      const config = new Function('module', `${result.content}; return module.exports;`)({});
+
+      expect(result.content).toContain('module.exports = {');
+      expect(config.theme.extend.colors).toEqual({ primary: '#0066ff' });
+      expect(config.theme.extend.fontSize.body).toEqual([
+        '16px',
+        { lineHeight: '24px', fontWeight: '400', letterSpacing: '0px' },
+      ]);
+      expect(config.theme.extend.fontFamily).toEqual({ inter: ['Inter'] });
+      expect(config.theme.extend.boxShadow.card).toBe('0px 4px 8px 0px rgba(0, 0, 0, 0.25)');
+    });
+
+    it('should reference css variables for tokens with modes', async () => {
+      const result = await createExtractor([], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'tailwind',
+      }) as FormattedTokens;
+      const config = new Function('module', `${result.content}; return module.exports;`)({});
+
+      expect(config.theme.extend.colors['theme-surface']).toBe('var(--theme-surface, #ffffff)');
+      expect(config.theme.extend.spacing['spacing-md']).toBe('16px');
+    });
+  });
+
+  describe('scss format', () => {
+    it('should emit variables, category maps and a themes map', async () => {
+      const result = await createExtractor(styles, variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'scss',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('$color-primary: #0066ff;');
+      expect(result.content).toContain([
+        '$text-body: (',
+        '  font-family: "Inter",',
+        '  font-size: 16px,',
+        '  font-weight: 400,',
+        '  line-height: 24px,',
+        '  letter-spacing: 0px,',
+        ');',
+      ].join('\n'));
+      expect(result.content).toContain("  'color-primary': $color-primary,");
+      expect(result.content).toContain([
+        '$themes: (',
+        "  'dark': (",
+        "    'theme-surface': #000000,",
+        "    'theme-text': #000000,",
+        '  ),',
+        ');',
+      ].join('\n'));
+    });
+  });
+
+  describe('typescript format', () => {
+    it('should emit an as-const token tree and theme overrides', async () => {
+      const result = await createExtractor(styles, variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'typescript',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('export const tokens = {');
+      expect(result.content).toContain([
+        '  color: {',
+        "    primary: '#0066ff',",
+        '  },',
+      ].join('\n'));
+      expect(result.content).toContain("    spacingMd: '16px',");
+      expect(result.content).toContain("} as const;\n\nexport type DesignTokens = typeof tokens;");
+      expect(result.content).toContain([
+        'export const themes = {',
+        '  dark: {',
+        '    theme: {',
+        "      surface: '#000000',",
+        "      text: '#000000',",
+      ].join('\n'));
+    });
+  });
+
+  describe('style-dictionary format', () => {
+    it('should emit value objects with dotted alias references', async () => {
+      const result = await createExtractor([], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'style-dictionary',
+      }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Theme.surface).toMatchObject({ value: '#ffffff', type: 'color' });
+      expect(document.Theme.text.attributes.figma.modes).toEqual({ Light: '#000000', Dark: '{Theme.surface.value}' });
+      expect(document.Spacing['spacing-md']).toMatchObject({ value: '16px', type: 'dimension' });
+    });
+
+    it('should skip tokens whose aliases point outside the file', async () => {
+      const result = await createExtractor([], [
+        ...variables,
+        {
+          id: 'VariableID:4',
+          name: 'brand',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c1',
+          valuesByMode: {
+            m1: { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' },
+            m2: { r: 1, g: 0, b: 0, a: 1 },
+          },
+        },
+      ], variableCollections).extractTokens({ fileId: 'file', format: 'style-dictionary' }) as FormattedTokens;
+      const document = JSON.parse(result.content);
+
+      expect(document.Theme.brand).toBeUndefined();
+      expect(document.Theme.surface.value).toBe('#ffffff');
+    });
+  });
+
+  describe('formatter registry', () => {
+    it('should format tokens with a registered custom formatter', async () => {
+      const extractor = createExtractor(styles);
+      extractor.registerFormatter({
+        format: 'names',
+        description: 'Token names, one per line',
+        formatTokens: tokens => tokens.map(token => token.name).join('\n'),
+      });
+
+      const result = await extractor.extractTokens({ fileId: 'file', format: 'names' }) as FormattedTokens;
+
+      expect(result.content).toBe('color-primary\ntext-body\nshadow-card');
+      expect(extractor.getAvailableFormats().map(({ format }) => format)).toContain('names');
+    });
+
+    it('should reject unknown formats with the available ones', async () => {
+      await expect(createExtractor(styles).extractTokens({ fileId: 'file', format: 'xml' }))
+        .rejects.toThrow('Unknown token format "xml". Available formats: standard, css-variables, dtcg');
+    });
+  });
+
+  describe('native formats', () => {
+    const overlay = {
+      key: 'overlay',
+      name: 'Color/Overlay',
+      style_type: 'FILL',
+      fills: [{ type: 'SOLID', opacity: 0.5, color: { r: 0, g: 0, b: 0, a: 1 } }],
+    };
+
+    it('should keep fill opacity as an alpha channel', async () => {
+      const result = await createExtractor([overlay]).extractTokens({ fileId: 'file' });
+
+      expect((result as any).colors[0].value).toBe('#00000080');
+    });
+
+    it('should emit Android colors as #AARRGGBB', async () => {
+      const result = await createExtractor([...styles, overlay], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'android-colors',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('<?xml version="1.0" encoding="utf-8"?>');
+      expect(result.content).toContain('    <color name="color_primary">#FF0066FF</color>');
+      expect(result.content).toContain('    <color name="color_overlay">#80000000</color>');
+      expect(result.content).toContain('    <color name="theme_surface">#FFFFFFFF</color>');
+      expect(result.content).not.toContain('text_body');
+    });
+
+    it('should emit Android dimensions in dp and text sizes in sp', async () => {
+      const result = await createExtractor(styles, variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'android-dimens',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('    <dimen name="spacing_spacing_md">16dp</dimen>');
+      expect(result.content).toContain('    <dimen name="text_body_size">16sp</dimen>');
+      expect(result.content).toContain('    <dimen name="text_body_line_height">24sp</dimen>');
+      expect(result.content).toContain('    <dimen name="shadow_card_radius">8dp</dimen>');
+      expect(result.content).not.toContain('<color');
+    });
+
+    it('should only reference Android resources that are written', async () => {
+      const aliases = [
+        ...variables,
+        {
+          id: 'VariableID:4',
+          name: 'remote',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c2',
+          valuesByMode: { s1: { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' } },
+        },
+        {
+          id: 'VariableID:5',
+          name: 'alias-remote',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c2',
+          valuesByMode: { s1: { type: 'VARIABLE_ALIAS', id: 'VariableID:4' } },
+        },
+        {
+          id: 'VariableID:6',
+          name: 'alias-surface',
+          resolvedType: 'COLOR',
+          variableCollectionId: 'c2',
+          valuesByMode: { s1: { type: 'VARIABLE_ALIAS', id: 'VariableID:1' } },
+        },
+        {
+          id: 'VariableID:7',
+          name: 'gap',
+          resolvedType: 'FLOAT',
+          variableCollectionId: 'c2',
+          valuesByMode: { s1: { type: 'VARIABLE_ALIAS', id: 'VariableID:3' } },
+        },
+      ];
+      const extractor = createExtractor([], aliases, variableCollections);
+
+      const colors = await extractor.extractTokens({ fileId: 'file', format: 'android-colors' }) as FormattedTokens;
+      const dimens = await extractor.extractTokens({ fileId: 'file', format: 'android-dimens' }) as FormattedTokens;
+
+      expect(colors.content).toContain('    <color name="spacing_alias_surface">@color/theme_surface</color>');
+      expect(colors.content).not.toContain('remote');
+      expect(dimens.content).toContain('    <dimen name="spacing_gap">@dimen/spacing_spacing_md</dimen>');
+    });
+
+    it('should emit Swift colors with a dynamic dark variant', async () => {
+      const result = await createExtractor(styles, variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'swift',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('    static let colorPrimary = UIColor(red: 0.000, green: 0.400, blue: 1.000, alpha: 1.000)');
+      expect(result.content).toContain([
+        '    static let themeSurface = UIColor { traits in',
+        '        traits.userInterfaceStyle == .dark',
+        '            ? UIColor(red: 0.000, green: 0.000, blue: 0.000, alpha: 1.000)',
+        '            : UIColor(red: 1.000, green: 1.000, blue: 1.000, alpha: 1.000)',
+        '    }',
+      ].join('\n'));
+      expect(result.content).toContain('    static let colorPrimary = Color(UIColor.colorPrimary)');
+      expect(result.content).toContain('    static let textBody = Font.custom("Inter", size: 16).weight(.regular)');
+      expect(result.content).toContain('    public static let spacingSpacingMd: CGFloat = 16');
+    });
+
+    it('should emit a Compose object with colors per mode, dp and TextStyle values', async () => {
+      const result = await createExtractor([...styles, overlay], variables, variableCollections).extractTokens({
+        fileId: 'file',
+        format: 'compose',
+      }) as FormattedTokens;
+
+      expect(result.content).toContain('import androidx.compose.ui.unit.sp');
+      expect(result.content).toContain('        val ColorOverlay = Color(0x80000000)');
+      expect(result.content).toContain([
+        '    object DarkColors {',
+        '        val ThemeSurface = Color(0xFF000000)',
+        '        val ThemeText = Color(0xFF000000)',
+        '    }',
+      ].join('\n'));
+      expect(result.content).toContain('        val SpacingSpacingMd = 16.dp');
+      expect(result.content).toContain([
+        '        val TextBody = TextStyle(',
+        '            fontFamily = FontFamily.Default, // Inter',
+        '            fontSize = 16.sp,',
+        '            fontWeight = FontWeight(400),',
+        '            lineHeight = 24.sp,',
+        '            letterSpacing = 0.sp,',
+        '        )',
+      ].join('\n'));
+    });
+  });
+
+  describe('style resolution', () => {
+    it('should read style values from their definition nodes', async () => {
+      const client = createClient(styles);
+      const extractor = new DesignTokenExtractor(client as unknown as FigmaClient, new CacheService());
+
+      const result = await extractor.extractTokens({ fileId: 'file' }) as any;
+
+      expect(client.getNodes).toHaveBeenCalledWith('file', ['1:1', '2:1', '3:1']);
+      expect(result.colors[0]).toMatchObject({ name: 'color-primary', value: '#0066ff', styleKey: 'primary' });
+      expect(result.typography[0].value).toEqual({
+        fontFamily: 'Inter',
+        fontSize: 16,
+        fontWeight: 400,
+        lineHeight: 24,
+        letterSpacing: 0,
+      });
+      expect(result.effects[0].value).toMatchObject({ type: 'DROP_SHADOW', radius: 8, color: 'rgba(0, 0, 0, 0.25)' });
+    });
+
+    it('should request style nodes in batches', async () => {
+      const colors = Array.from({ length: 150 }, (_, index) => ({
+        key: `color-${index}`,
+        name: `Color/${index}`,
+        style_type: 'FILL',
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+      }));
+      const client = createClient(colors);
+      const extractor = new DesignTokenExtractor(client as unknown as FigmaClient, new CacheService());
+
+      const result = await extractor.extractTokens({ fileId: 'file' }) as any;
+
+      expect(client.getNodes).toHaveBeenCalledTimes(2);
+      expect(client.getNodes.mock.calls[0][1]).toHaveLength(100);
+      expect(result.colors).toHaveLength(150);
+    });
+
+    it('should skip styles that cannot be resolved instead of inventing values', async () => {
+      const client = createClient(styles);
+      client.getNodes.mockResolvedValue({ nodes: { '1:1': null } });
+      const extractor = new DesignTokenExtractor(client as unknown as FigmaClient, new CacheService());
+
+      const result = await extractor.extractTokens({ fileId: 'file' }) as any;
+
+      expect(result.colors).toEqual([]);
+      expect(result.typography).toEqual([]);
+      expect(result.effects).toEqual([]);
+    });
+
+    it('should keep every layer of stacked shadows', async () => {
+      const elevation = [{
+        key: 'elevation',
+        name: 'Shadow/Card',
+        style_type: 'EFFECT',
+        effects: [
+          { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8 },
+          { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 0, y: 1 }, radius: 2 },
+          { type: 'DROP_SHADOW', color: { r: 1, g: 0, b: 0, a: 1 }, offset: { x: 0, y: 0 }, radius: 1, visible: false },
+        ],
+      }];
+      const extractor = createExtractor(elevation);
+
+      const standard = await extractor.extractTokens({ fileId: 'file' }) as any;
+      const css = await extractor.extractTokens({ fileId: 'file', format: 'css-variables' }) as FormattedTokens;
+      const scss = await extractor.extractTokens({ fileId: 'file', format: 'scss' }) as FormattedTokens;
+      const tailwind = await extractor.extractTokens({ fileId: 'file', format: 'tailwind' }) as FormattedTokens;
+      const dtcg = await extractor.extractTokens({ fileId: 'file', format: 'dtcg' }) as FormattedTokens;
+
+      const stacked = '0px 4px 8px 0px rgba(0, 0, 0, 0.25), 0px 1px 2px 0px rgba(0, 0, 0, 0.5)';
+      expect(standard.effects[0].value.layers).toHaveLength(2);
+      expect(css.content).toContain(`  --shadow-card: ${stacked};`);
+      expect(scss.content).toContain(`$shadow-card: ${stacked};`);
+      expect(tailwind.content).toContain(`"card": "${stacked}"`);
+      expect(JSON.parse(dtcg.content).Shadow.Card.$value).toEqual([
+        { color: 'rgba(0, 0, 0, 0.25)', offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px' },
+        { color: 'rgba(0, 0, 0, 0.5)', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' },
+      ]);
+    });
+  });
+});
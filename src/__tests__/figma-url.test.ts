@@ -28,6 +28,11 @@ describe('FigmaUrlParser', () => {
       expect(result.nodeId).toBe('123:456');
     });
 
+    it('should normalize dash-separated node IDs from share links', () => {
+      expect(FigmaUrlParser.parse('https://www.figma.com/design/abc123/File?node-id=123-456').nodeId).toBe('123:456');
+      expect(FigmaUrlParser.parse('https://www.figma.com/design/abc123/File?node-id=I1-2%3B3-4').nodeId).toBe('I1:2;3:4');
+    });
+
     it('should parse URLs without protocol', () => {
       const url = 'https://figma.com/file/abc123/My-File';
       const result = FigmaUrlParser.parse(url);
@@ -43,10 +48,37 @@ describe('FigmaUrlParser', () => {
       expect(result.fileName).toBe('My Design File');
     });
 
+    it('should parse prototype, board and dev mode links', () => {
+      const proto = FigmaUrlParser.parse('https://www.figma.com/proto/abc123/Flow?node-id=1-2&t=Xyz-1&starting-point-node-id=1%3A2');
+      expect(proto).toMatchObject({ fileId: 'abc123', urlType: 'proto', nodeId: '1:2' });
+
+      const board = FigmaUrlParser.parse('https://www.figma.com/board/def456/Workshop');
+      expect(board).toMatchObject({ fileId: 'def456', urlType: 'board', fileName: 'Workshop' });
+
+      const dev = FigmaUrlParser.parse('https://www.figma.com/design/abc123/File?node-id=10-20&m=dev');
+      expect(dev).toMatchObject({ urlType: 'design', mode: 'dev', nodeId: '10:20' });
+    });
+
+    it('should parse branch links and target the branch key', () => {
+      const result = FigmaUrlParser.parse('https://www.figma.com/design/abc123/branch/br4nch/My-File?node-id=1-2');
+
+      expect(result).toMatchObject({
+        fileId: 'abc123',
+        branchKey: 'br4nch',
+        fileName: 'My-File',
+        nodeId: '1:2',
+      });
+      expect(FigmaUrlParser.getTargetFileId(result)).toBe('br4nch');
+      expect(FigmaUrlParser.getTargetFileId(FigmaUrlParser.parse('https://www.figma.com/design/abc123'))).toBe('abc123');
+    });
+
     it('should throw error for invalid URLs', () => {
       expect(() => FigmaUrlParser.parse('https://invalid.com/file/123')).toThrow();
       expect(() => FigmaUrlParser.parse('not-a-url')).toThrow();
       expect(() => FigmaUrlParser.parse('')).toThrow();
+      expect(() => FigmaUrlParser.parse('http://www.figma.com/file/abc123/File')).toThrow();
+      expect(() => FigmaUrlParser.parse('https://www.figma.com/community/file/123')).toThrow();
+      expect(() => FigmaUrlParser.parse('https://www.figma.com/design/abc123/branch/')).toThrow();
     });
   });
 
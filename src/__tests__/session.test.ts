@@ -0,0 +1,92 @@
+import { SessionManager } from '../services/session';
+import { ComponentListItem, ComponentDependencyGraph } from '../extractors/component';
+import { FigmaUrlParser } from '../utils/figma-url';
+
+const component = (id: string, name: string): ComponentListItem => ({
+  id,
+  name,
+  type: 'COMPONENT',
+  published: false,
+  lastModified: '2024-01-01T00:00:00Z',
+});
+
+const dependencyNode = (id: string, dependencies: string[] = []) => ({
+  id,
+  name: id,
+  type: 'COMPONENT' as const,
+  dependencies,
+  dependents: [],
+  externalDependencies: [],
+});
+
+describe('SessionManager', () => {
+  describe('setWorkingFile', () => {
+    it('should work on the branch file when the URL points at a branch', () => {
+      const sessions = new SessionManager();
+      const workingFile = sessions.setWorkingFile(
+        'client',
+        FigmaUrlParser.parse('https://www.figma.com/design/abc123/branch/br4nch/Design')
+      );
+
+      expect(workingFile).toMatchObject({ fileId: 'br4nch', mainFileId: 'abc123', branchKey: 'br4nch' });
+    });
+  });
+
+  describe('getImplementationQueue', () => {
+    const components = [component('3:0', 'Card'), component('1:0', 'Button'), component('2:0', 'Icon')];
+    const graph: ComponentDependencyGraph = {
+      nodes: {
+        '3:0': dependencyNode('3:0', ['1:0']),
+        '1:0': dependencyNode('1:0', ['2:0']),
+        '2:0': dependencyNode('2:0'),
+      },
+      order: ['2:0', '1:0', '3:0'],
+      cyclic: [],
+    };
+
+    const createSession = () => {
+      const sessions = new SessionManager();
+      sessions.setWorkingFile('client', FigmaUrlParser.parse('https://www.figma.com/file/abc123/Design'));
+      return sessions;
+    };
+
+    it('should keep list order without a dependency graph', () => {
+      const queue = createSession().getImplementationQueue('client', components);
+
+      expect(queue.pending.map(c => c.id)).toEqual(['3:0', '1:0', '2:0']);
+    });
+
+    it('should order pending components with leaf components first', () => {
+      const queue = createSession().getImplementationQueue('client', components, graph);
+
+      expect(queue.pending.map(c => c.id)).toEqual(['2:0', '1:0', '3:0']);
+      expect(queue.pending[0].blockedBy).toBeUndefined();
+      expect(queue.pending[1].blockedBy).toEqual(['2:0']);
+    });
+
+    it('should unblock components once their dependencies are implemented', () => {
+      const sessions = createSession();
+      sessions.updateComponentStatus('client', '2:0', 'Icon', 'implemented');
+
+      const queue = sessions.getImplementationQueue('client', components, graph);
+
+      expect(queue.implemented.map(c => c.id)).toEqual(['2:0']);
+      expect(queue.pending.map(c => c.id)).toEqual(['1:0', '3:0']);
+      expect(queue.pending[0].dependencies).toEqual(['2:0']);
+      expect(queue.pending[0].blockedBy).toBeUndefined();
+      expect(queue.pending[1].blockedBy).toEqual(['1:0']);
+    });
+
+    it('should keep dependencies on implemented components', () => {
+      const sessions = createSession();
+      sessions.updateComponentStatus('client', '2:0', 'Icon', 'implemented');
+      sessions.updateComponentStatus('client', '1:0', 'Button', 'implemented');
+
+      const queue = sessions.getImplementationQueue('client', components, graph);
+
+      expect(queue.implemented.map(c => c.id)).toEqual(['2:0', '1:0']);
+      expect(queue.implemented[1].dependencies).toEqual(['2:0']);
+      expect(queue.implemented[1].blockedBy).toBeUndefined();
+    });
+  });
+});
@@ -1,33 +1,85 @@
 import { FigmaClient } from '../figma/client.js';
 import { CacheService } from '../services/cache.js';
+import { DesignTokenExtractor, TokenReferenceIndex } from './design-tokens.js';
 import { logger } from '../utils/logger.js';
+import { FigmaUrlParser } from '../utils/figma-url.js';
 import { 
+  AnatomyNode,
   ComponentData, 
   ComponentSpecification, 
   FigmaNode, 
   FigmaFile,
+  FigmaPublishedComponent,
+  FigmaStyle,
   RGBA,
   Paint,
-  Effect 
+  Effect,
+  VariableAlias
 } from '../types/figma.js';
 import { 
   GetComponentArgsSchema,
+  ListComponentsArgsSchema,
+  SearchComponentsArgsSchema,
   GetComponentSpecificationArgsSchema,
   CheckComponentChangesArgsSchema,
-  ComponentFilterSchema 
+  GetComponentDependenciesArgsSchema,
+  ResolveNodeArgsSchema
 } from '../utils/validation.js';
 
 export interface ComponentListItem {
   id: string;
+  key?: string;
   name: string;
   type: 'COMPONENT' | 'COMPONENT_SET';
   description?: string;
+  documentationLinks?: string[];
   variantCount?: number;
+  page?: string;
+  path?: string[];
+  group?: string;
+  propertyNames?: string[];
   lastModified: string;
-  published: boolean;
+  // Undefined when the library endpoints could not be reached
+  published?: boolean;
   thumbnail?: string;
 }
 
+export interface ComponentListPage {
+  components: ComponentListItem[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string;
+  warnings?: string[];
+}
+
+type ComponentSortKey = Array<string | number>;
+
+export type ComponentSearchField = 'name' | 'path' | 'variantValues' | 'description' | 'text';
+
+export interface ComponentSearchResult {
+  component: ComponentListItem;
+  score: number;
+  matches: Array<{
+    field: ComponentSearchField;
+    value: string;
+    terms: string[];
+  }>;
+}
+
+// How much a term matching each field counts towards the score
+const SEARCH_FIELD_WEIGHTS: Record<ComponentSearchField, number> = {
+  name: 1,
+  path: 0.7,
+  variantValues: 0.6,
+  description: 0.5,
+  text: 0.4,
+};
+
+const SEARCH_STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'for', 'with', 'and', 'or', 'in', 'on']);
+
+// Node types whose children are summarized when a link points at them
+const CONTAINER_NODE_TYPES = new Set(['FRAME', 'SECTION', 'GROUP', 'CANVAS']);
+
 export interface ChangeSet {
   hasChanges: boolean;
   changedComponents: Array<{
@@ -39,26 +91,86 @@ export interface ChangeSet {
   }>;
   newComponents: ComponentListItem[];
   deletedComponents: string[];
+  warnings?: string[];
+}
+
+interface TokenBindings {
+  styles: Record<string, FigmaStyle>;
+  index: TokenReferenceIndex | null;
+}
+
+export interface ResolvedNode {
+  nodeId: string;
+  name: string;
+  nodeType: string;
+  kind: 'component' | 'component-set' | 'variant' | 'instance' | 'frame' | 'layer';
+  componentId?: string;
+  variant?: {
+    id: string;
+    name: string;
+    properties: Record<string, string>;
+  };
+  mainComponent?: {
+    id: string;
+    name?: string;
+    key?: string;
+    local: boolean;
+  };
+  component?: ComponentData;
+  specification?: ComponentSpecification;
+  contents?: {
+    components: Array<{ id: string; name: string; type: 'COMPONENT' | 'COMPONENT_SET' }>;
+    instances: Array<{ componentId: string; name?: string; count: number }>;
+  };
+}
+
+export interface ComponentDependencyNode {
+  id: string;
+  name: string;
+  type: 'COMPONENT' | 'COMPONENT_SET';
+  dependencies: string[];
+  dependents: string[];
+  externalDependencies: Array<{
+    componentId: string;
+    name?: string;
+    key?: string;
+  }>;
+}
+
+export interface ComponentDependencyGraph {
+  nodes: Record<string, ComponentDependencyNode>;
+  order: string[];
+  cyclic: string[];
 }
 
 export class ComponentExtractor {
   constructor(
     private figmaClient: FigmaClient,
-    private cache: CacheService
+    private cache: CacheService,
+    private tokenExtractor?: DesignTokenExtractor
   ) {}
 
+  // Node id lookups, built once per loaded document
+  private nodeIndexes = new WeakMap<FigmaFile, Map<string, FigmaNode>>();
+
   async extractComponent(args: any): Promise<ComponentData> {
     const validatedArgs = GetComponentArgsSchema.parse(args);
     const { fileId, componentId, includeVariants, includeInstances } = validatedArgs;
 
-    const cacheKey = CacheService.keys.component(fileId, componentId);
+    const cacheKey = CacheService.keys.component(fileId, componentId, [
+      ...(includeVariants ? [] : ['no-variants']),
+      ...(includeInstances ? ['instances'] : []),
+    ]);
     const cached = await this.cache.get<ComponentData>(cacheKey);
     
     if (cached) {
       return cached;
     }
 
-    const file = await this.figmaClient.getFile(fileId);
+    // Instances can live anywhere in the file, so only they need the whole document
+    const file = includeInstances
+      ? await this.getFileDocument(fileId)
+      : await this.getComponentScope(fileId, componentId);
     const component = this.findComponentInFile(file, componentId);
     
     if (!component) {
@@ -68,14 +180,16 @@ export class ComponentExtractor {
     const componentData = await this.processComponent(component, file, {
       includeVariants,
       includeInstances,
+      bindings: await this.loadTokenBindings(fileId, file),
     });
 
     await this.cache.set(cacheKey, componentData, CacheService.ttl.component);
     return componentData;
   }
 
-  async listComponents(fileId: string, filter?: any): Promise<{ components: ComponentListItem[]; totalCount: number; hasMore: boolean }> {
-    const validatedFilter = ComponentFilterSchema.parse(filter);
+  async listComponents(args: any): Promise<ComponentListPage> {
+    const validatedArgs = ListComponentsArgsSchema.parse(args);
+    const { fileId, filter, limit, cursor, offset, sortBy } = validatedArgs;
     
     const cacheKey = CacheService.keys.componentList(fileId);
     const cached = await this.cache.get<ComponentListItem[]>(cacheKey);
@@ -85,18 +199,70 @@ export class ComponentExtractor {
     if (cached) {
       components = cached;
     } else {
-      const file = await this.figmaClient.getFile(fileId);
-      components = this.extractComponentList(file);
+      const file = await this.getFileDocument(fileId);
+      const publishedComponents = await this.fetchPublishedComponents(fileId);
+      components = this.extractComponentList(file, publishedComponents);
       await this.cache.set(cacheKey, components, CacheService.ttl.componentList);
     }
 
-    // Apply filters
-    const filteredComponents = this.applyFilters(components, validatedFilter);
+    // Sort keys are taken before filtering so the default order stays the document order
+    const entries = components
+      .map((component, position) => ({ component, key: this.getSortKey(component, sortBy, position) }))
+      .filter(entry => this.matchesFilter(entry.component, filter))
+      .sort((a, b) => this.compareSortKeys(a.key, a.component.id, b.key, b.component.id));
+
+    let start = offset || 0;
+    if (cursor) {
+      const position = this.decodeCursor(cursor, sortBy);
+      const index = entries.findIndex(entry =>
+        this.compareSortKeys(entry.key, entry.component.id, position.key, position.id) > 0
+      );
+      start = index === -1 ? entries.length : index;
+    }
+
+    const pageEntries = entries.slice(start, limit !== undefined ? start + limit : undefined);
+    const hasMore = start + pageEntries.length < entries.length;
+    const last = pageEntries[pageEntries.length - 1];
+
+    const warnings: string[] = [];
+    if (components.some(component => component.published === undefined)) {
+      warnings.push(filter?.published !== undefined
+        ? 'Publish status is unavailable because the library endpoints could not be reached, so the published filter matched nothing'
+        : 'Publish status is unavailable because the library endpoints could not be reached');
+    }
 
     return {
-      components: filteredComponents,
-      totalCount: filteredComponents.length,
-      hasMore: false, // TODO: Implement pagination
+      components: pageEntries.map(entry => entry.component),
+      totalCount: entries.length,
+      hasMore,
+      nextCursor: hasMore && last ? this.encodeCursor(last.key, last.component.id, sortBy) : undefined,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+
+  async searchComponents(args: any): Promise<{ query: string; results: ComponentSearchResult[]; totalMatches: number }> {
+    const validatedArgs = SearchComponentsArgsSchema.parse(args);
+    const { fileId, query, limit, filter } = validatedArgs;
+
+    const terms = this.tokenizeSearchText(query).filter(term => !SEARCH_STOP_WORDS.has(term));
+    if (terms.length === 0) {
+      throw new Error('Search query must contain at least one word');
+    }
+
+    const { components } = await this.listComponents({ fileId, filter });
+    const file = await this.getFileDocument(fileId);
+
+    const matches = components
+      .map(component => this.scoreSearchResult(component, this.findComponentInFile(file, component.id), query, terms))
+      .filter((result): result is ComponentSearchResult => result !== null)
+      .sort((a, b) => b.score - a.score);
+
+    logger.debug(`Component search for "${query}" matched ${matches.length} components`, { fileId, terms });
+
+    return {
+      query,
+      results: matches.slice(0, limit),
+      totalMatches: matches.length,
     };
   }
 
@@ -111,30 +277,154 @@ export class ComponentExtractor {
       return cached;
     }
 
-    const componentData = await this.extractComponent({
-      fileId,
-      componentId,
-      includeVariants: true,
-      includeInstances: false,
-    });
-
-    const file = await this.figmaClient.getFile(fileId);
+    const file = await this.getComponentScope(fileId, componentId);
     const component = this.findComponentInFile(file, componentId);
     
     if (!component) {
       throw new Error(`Component ${componentId} not found in file ${fileId}`);
     }
 
+    const bindings = await this.loadTokenBindings(fileId, file);
+
+    // Reuse the component data cached by extractComponent, building it from the same nodes otherwise
+    const componentCacheKey = CacheService.keys.component(fileId, componentId);
+    let componentData = await this.cache.get<ComponentData>(componentCacheKey);
+
+    if (!componentData) {
+      componentData = await this.processComponent(component, file, {
+        includeVariants: true,
+        includeInstances: false,
+        bindings,
+      });
+      await this.cache.set(componentCacheKey, componentData, CacheService.ttl.component);
+    }
+
     const specification = this.buildComponentSpecification(
       componentData,
       component,
-      { includeAccessibility, includeInteractions }
+      {
+        includeAccessibility,
+        includeInteractions,
+        bindings,
+      }
     );
 
     await this.cache.set(cacheKey, specification, CacheService.ttl.componentSpec);
     return specification;
   }
 
+  async resolveNode(args: any): Promise<ResolvedNode> {
+    const validatedArgs = ResolveNodeArgsSchema.parse(args);
+    const { fileId, detail } = validatedArgs;
+    const nodeId = FigmaUrlParser.normalizeNodeId(validatedArgs.nodeId);
+
+    const scope = await this.getComponentScope(fileId, nodeId);
+    const node = this.findComponentInFile(scope, nodeId);
+
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found in file ${fileId}`);
+    }
+
+    const resolved: ResolvedNode = {
+      nodeId,
+      name: node.name,
+      nodeType: node.type,
+      kind: 'layer',
+    };
+
+    if (node.type === 'COMPONENT_SET') {
+      resolved.kind = 'component-set';
+      resolved.componentId = node.id;
+    } else if (node.type === 'COMPONENT') {
+      const componentSetId = scope.components?.[node.id]?.componentSetId;
+      resolved.kind = componentSetId ? 'variant' : 'component';
+      resolved.componentId = componentSetId || node.id;
+
+      if (componentSetId) {
+        resolved.variant = { id: node.id, name: node.name, properties: this.parseVariantName(node.name) };
+      }
+    } else if (node.type === 'INSTANCE' && node.componentId) {
+      // Instances resolve to their main component, or its set when the main component is a variant
+      const metadata = scope.components?.[node.componentId];
+      const local = !!metadata && !metadata.remote;
+      resolved.kind = 'instance';
+      resolved.mainComponent = {
+        id: node.componentId,
+        name: metadata?.name,
+        key: metadata?.key,
+        local,
+      };
+
+      if (local) {
+        resolved.componentId = metadata?.componentSetId || node.componentId;
+        if (metadata?.componentSetId) {
+          resolved.variant = {
+            id: node.componentId,
+            name: metadata.name,
+            properties: this.parseVariantName(metadata.name),
+          };
+        }
+      }
+    } else if (CONTAINER_NODE_TYPES.has(node.type)) {
+      resolved.kind = 'frame';
+      resolved.contents = this.summarizeContents(node, scope);
+    }
+
+    if (resolved.componentId) {
+      if (detail === 'specification') {
+        resolved.specification = await this.extractComponentSpecification({ fileId, componentId: resolved.componentId });
+      } else {
+        resolved.component = await this.extractComponent({ fileId, componentId: resolved.componentId });
+      }
+    }
+
+    logger.debug(`Resolved node ${nodeId} as ${resolved.kind}`, { fileId, componentId: resolved.componentId });
+
+    return resolved;
+  }
+
+  async getDependencyGraph(args: any): Promise<ComponentDependencyGraph> {
+    const validatedArgs = GetComponentDependenciesArgsSchema.parse(args);
+    const { fileId, componentId } = validatedArgs;
+
+    const cacheKey = CacheService.keys.dependencyGraph(fileId);
+    let graph = await this.cache.get<ComponentDependencyGraph>(cacheKey);
+
+    if (!graph) {
+      const file = await this.getFileDocument(fileId);
+      graph = this.buildDependencyGraph(file);
+      await this.cache.set(cacheKey, graph, CacheService.ttl.dependencyGraph);
+    }
+
+    if (!componentId) {
+      return graph;
+    }
+
+    if (!graph.nodes[componentId]) {
+      throw new Error(`Component ${componentId} not found in file ${fileId}`);
+    }
+
+    // Narrow the graph to the component and everything it transitively depends on
+    const included = new Set<string>();
+    const visit = (id: string) => {
+      if (included.has(id) || !graph!.nodes[id]) return;
+      included.add(id);
+      graph!.nodes[id].dependencies.forEach(visit);
+    };
+    visit(componentId);
+
+    const nodes: Record<string, ComponentDependencyNode> = {};
+    included.forEach(id => {
+      nodes[id] = graph!.nodes[id];
+    });
+
+    return {
+      nodes,
+      order: graph.order.filter(id => included.has(id)),
+      cyclic: graph.cyclic.filter(id => included.has(id)),
+    };
+  }
+
   async checkChanges(args: any): Promise<ChangeSet> {
     const validatedArgs = CheckComponentChangesArgsSchema.parse(args);
     const { fileId, lastSyncTimestamp, componentIds } = validatedArgs;
@@ -154,11 +444,20 @@ export class ComponentExtractor {
 
     // For now, we'll return a simplified change detection
     // In a real implementation, you'd compare against stored component versions
-    const components = this.extractComponentList(file);
+    const publishedComponents = componentIds && componentIds.length > 0
+      ? await this.fetchPublishedComponentsByKey(file, componentIds)
+      : await this.fetchPublishedComponents(fileId);
+    const components = this.extractComponentList(file, publishedComponents)
+      .filter(component => !componentIds || componentIds.length === 0 || componentIds.includes(component.id));
     const recentlyModified = components.filter(component => 
       new Date(component.lastModified) > lastSync
     );
 
+    const warnings: string[] = [];
+    if (!publishedComponents) {
+      warnings.push('Publish status is unavailable because the library endpoints could not be reached, so changes are based on the file modification time');
+    }
+
     return {
       hasChanges: recentlyModified.length > 0,
       changedComponents: recentlyModified.map(component => ({
@@ -170,51 +469,98 @@ export class ComponentExtractor {
       })),
       newComponents: [],
       deletedComponents: [],
+      ...(warnings.length > 0 && { warnings }),
     };
   }
 
-  private findComponentInFile(file: FigmaFile, componentId: string): FigmaNode | null {
-    const findInNode = (node: FigmaNode): FigmaNode | null => {
-      if (node.id === componentId) {
-        return node;
-      }
-      
-      if (node.children) {
-        for (const child of node.children) {
-          const found = findInNode(child);
-          if (found) return found;
-        }
-      }
-      
-      return null;
+  private async getFileDocument(fileId: string): Promise<FigmaFile> {
+    const cacheKey = CacheService.keys.fileDocument(fileId);
+    const cached = await this.cache.get<FigmaFile>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const file = await this.figmaClient.getFile(fileId);
+    await this.cache.set(cacheKey, file, CacheService.ttl.fileDocument);
+    return file;
+  }
+
+  private async getComponentScope(fileId: string, componentId: string): Promise<FigmaFile> {
+    // A document that is already loaded answers the lookup without another request
+    const cached = await this.cache.get<FigmaFile>(CacheService.keys.fileDocument(fileId));
+    if (cached && this.findComponentInFile(cached, componentId)) {
+      return cached;
+    }
+
+    const response = await this.figmaClient.getNodes(fileId, [componentId]);
+    const entry = response.nodes[componentId];
+
+    if (!entry) {
+      throw new Error(`Component ${componentId} not found in file ${fileId}`);
+    }
+
+    // The node response carries the component, style and set metadata for its own subtree
+    return {
+      ...entry,
+      name: response.name,
+      lastModified: response.lastModified,
+      thumbnailUrl: response.thumbnailUrl,
+      version: response.version,
     };
+  }
 
-    return findInNode(file.document);
+  private findComponentInFile(file: FigmaFile, componentId: string): FigmaNode | null {
+    let index = this.nodeIndexes.get(file);
+
+    if (!index) {
+      const nodes = new Map<string, FigmaNode>();
+      const indexNode = (node: FigmaNode) => {
+        nodes.set(node.id, node);
+        node.children?.forEach(indexNode);
+      };
+      indexNode(file.document);
+
+      index = nodes;
+      this.nodeIndexes.set(file, index);
+    }
+
+    return index.get(componentId) || null;
   }
 
   private async processComponent(
     component: FigmaNode, 
     file: FigmaFile, 
-    options: { includeVariants: boolean; includeInstances: boolean }
+    options: { includeVariants: boolean; includeInstances: boolean; bindings?: TokenBindings }
   ): Promise<ComponentData> {
     const dimensions = this.extractDimensions(component);
-    const colors = this.extractColors(component);
-    const typography = this.extractTypography(component);
-    const spacing = this.extractSpacing(component);
-    const effects = this.extractEffects(component);
+    const colors = this.extractColors(component, options.bindings);
+    const typography = this.extractTypography(component, options.bindings);
+    const spacing = this.extractSpacing(component, options.bindings);
+    const effects = this.extractEffects(component, options.bindings);
     
     let variants: ComponentData['variants'];
     if (options.includeVariants && component.type === 'COMPONENT_SET') {
       variants = this.extractVariants(component, file);
     }
 
-    const componentInterface = this.generateComponentInterface(component);
+    let instances: ComponentData['instances'];
+    if (options.includeInstances) {
+      instances = this.findInstances(component, file);
+
+      variants?.forEach(variant => {
+        variant.instanceCount = instances!.filter(instance => instance.variant?.id === variant.id).length;
+      });
+    }
+
+    const componentInterface = this.generateComponentInterface(component, file);
 
     return {
       id: component.id,
       name: component.name,
       type: component.type as 'COMPONENT' | 'COMPONENT_SET',
-      description: this.extractDescription(component),
+      description: this.extractDescription(component, file),
+      documentationLinks: this.extractDocumentationLinks(component, file),
       properties: {
         dimensions,
         colors,
@@ -223,28 +569,295 @@ export class ComponentExtractor {
         effects,
       },
       variants,
+      instances,
       componentInterface,
     };
   }
 
-  private extractComponentList(file: FigmaFile): ComponentListItem[] {
+  private findInstances(component: FigmaNode, file: FigmaFile): NonNullable<ComponentData['instances']> {
+    const instances: NonNullable<ComponentData['instances']> = [];
+    const variantNodes = this.getVariantNodes(component);
+    const targets = new Map<string, FigmaNode>([
+      [component.id, component],
+      ...variantNodes.map(variant => [variant.id, variant] as [string, FigmaNode]),
+    ]);
+    const definitions = component.componentPropertyDefinitions || {};
+
+    const traverse = (node: FigmaNode, page: string | undefined, path: string[]) => {
+      if (node.type === 'INSTANCE' && node.componentId && targets.has(node.componentId)) {
+        const target = targets.get(node.componentId)!;
+        const propertyOverrides: Record<string, any> = {};
+
+        // Only report property values that differ from the component's defaults
+        Object.entries(node.componentProperties || {}).forEach(([name, property]) => {
+          if (property.type === 'VARIANT') return;
+          if (definitions[name] && definitions[name].defaultValue === property.value) return;
+          propertyOverrides[this.normalizePropertyName(name)] = property.value;
+        });
+
+        const overriddenLayers = (node.overrides || [])
+          .filter(override => override.overriddenFields.length > 0)
+          .map(override => ({ id: override.id, fields: override.overriddenFields }));
+
+        instances.push({
+          id: node.id,
+          name: node.name,
+          page,
+          path,
+          variant: target.id !== component.id
+            ? { id: target.id, name: target.name, properties: this.parseVariantName(target.name) }
+            : undefined,
+          propertyOverrides: Object.keys(propertyOverrides).length > 0 ? propertyOverrides : undefined,
+          overriddenLayers: overriddenLayers.length > 0 ? overriddenLayers : undefined,
+        });
+      }
+
+      // Layers inside an instance belong to its main component, which is visited on its own
+      if (node.type === 'INSTANCE') return;
+
+      const childPath = node.type === 'DOCUMENT' || node.type === 'CANVAS' ? path : [...path, node.name];
+      node.children?.forEach(child => {
+        traverse(child, child.type === 'CANVAS' ? child.name : page, childPath);
+      });
+    };
+
+    traverse(file.document, undefined, []);
+    return instances;
+  }
+
+  private summarizeContents(node: FigmaNode, file: FigmaFile): NonNullable<ResolvedNode['contents']> {
+    const components: NonNullable<ResolvedNode['contents']>['components'] = [];
+    const instances = new Map<string, { componentId: string; name?: string; count: number }>();
+
+    const traverse = (current: FigmaNode) => {
+      if (current.type === 'COMPONENT' || current.type === 'COMPONENT_SET') {
+        components.push({ id: current.id, name: current.name, type: current.type });
+        // Variants are reported through their set
+        if (current.type === 'COMPONENT_SET') return;
+      }
+
+      if (current.type === 'INSTANCE' && current.componentId) {
+        const existing = instances.get(current.componentId);
+        if (existing) {
+          existing.count++;
+        } else {
+          instances.set(current.componentId, {
+            componentId: current.componentId,
+            name: file.components?.[current.componentId]?.name,
+            count: 1,
+          });
+        }
+        return;
+      }
+
+      current.children?.forEach(traverse);
+    };
+    node.children?.forEach(traverse);
+
+    return {
+      components,
+      instances: Array.from(instances.values()),
+    };
+  }
+
+  private buildDependencyGraph(file: FigmaFile): ComponentDependencyGraph {
+    const nodes: Record<string, ComponentDependencyNode> = {};
+    const documentOrder: string[] = [];
+    const owners = new Map<string, string>();
+    const componentNodes: FigmaNode[] = [];
+
+    // Instances of a variant depend on the whole component set
+    const collect = (node: FigmaNode, setId?: string) => {
+      if (node.type === 'COMPONENT' && setId) {
+        owners.set(node.id, setId);
+      } else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+        owners.set(node.id, node.id);
+        componentNodes.push(node);
+        documentOrder.push(node.id);
+        nodes[node.id] = {
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          dependencies: [],
+          dependents: [],
+          externalDependencies: [],
+        };
+      }
+      node.children?.forEach(child => collect(child, node.type === 'COMPONENT_SET' ? node.id : setId));
+    };
+    collect(file.document);
+
+    componentNodes.forEach(component => {
+      const owner = owners.get(component.id)!;
+      const dependencies = new Set<string>();
+      const external = new Map<string, ComponentDependencyNode['externalDependencies'][number]>();
+
+      const findInstances = (node: FigmaNode) => {
+        if (node.type === 'INSTANCE' && node.componentId) {
+          const target = owners.get(node.componentId);
+          if (target && target !== owner) {
+            dependencies.add(target);
+          } else if (!target) {
+            const metadata = file.components?.[node.componentId];
+            external.set(node.componentId, {
+              componentId: node.componentId,
+              name: metadata?.name,
+              key: metadata?.key,
+            });
+          }
+          // Children of an instance belong to its main component
+          return;
+        }
+        node.children?.forEach(findInstances);
+      };
+      component.children?.forEach(findInstances);
+
+      nodes[component.id].dependencies = Array.from(dependencies);
+      nodes[component.id].externalDependencies = Array.from(external.values());
+    });
+
+    Object.values(nodes).forEach(node => {
+      node.dependencies.forEach(dependencyId => nodes[dependencyId].dependents.push(node.id));
+    });
+
+    // Kahn's algorithm, keeping document order among components that are ready at the same time
+    const remaining = new Map(documentOrder.map(id => [id, nodes[id].dependencies.length]));
+    const order: string[] = [];
+    const position = new Map(documentOrder.map((id, index) => [id, index]));
+    const ready = documentOrder.filter(id => remaining.get(id) === 0);
+
+    while (ready.length > 0) {
+      const id = ready.shift()!;
+      order.push(id);
+      remaining.delete(id);
+
+      nodes[id].dependents.forEach(dependentId => {
+        const count = remaining.get(dependentId)! - 1;
+        remaining.set(dependentId, count);
+        if (count === 0) {
+          ready.push(dependentId);
+          ready.sort((a, b) => position.get(a)! - position.get(b)!);
+        }
+      });
+    }
+
+    // Components left over depend on each other in a cycle, so they keep their document order
+    const cyclic = documentOrder.filter(id => remaining.has(id));
+
+    if (cyclic.length > 0) {
+      logger.debug('Circular component dependencies found', { cyclic });
+    }
+
+    return {
+      nodes,
+      order: [...order, ...cyclic],
+      cyclic,
+    };
+  }
+
+  private async fetchPublishedComponents(fileId: string): Promise<Map<string, FigmaPublishedComponent> | null> {
+    try {
+      const [componentsResponse, componentSetsResponse] = await Promise.all([
+        this.figmaClient.getFileComponents(fileId),
+        this.figmaClient.getFileComponentSets(fileId),
+      ]);
+
+      const published = new Map<string, FigmaPublishedComponent>();
+      [...(componentsResponse.meta.components || []), ...(componentSetsResponse.meta.component_sets || [])]
+        .forEach(component => published.set(component.node_id, component));
+
+      return published;
+    } catch (error: any) {
+      logger.warn('Failed to fetch published library components, publish status unavailable', {
+        fileId,
+        message: error.message,
+        status: error.status,
+      });
+      return null;
+    }
+  }
+
+  private async fetchPublishedComponentsByKey(
+    file: FigmaFile,
+    componentIds: string[]
+  ): Promise<Map<string, FigmaPublishedComponent> | null> {
+    const published = new Map<string, FigmaPublishedComponent>();
+    let failures = 0;
+
+    const lookups = componentIds.map(async componentId => {
+      const componentKey = file.components?.[componentId]?.key;
+      const componentSetKey = file.componentSets?.[componentId]?.key;
+      if (!componentKey && !componentSetKey) return;
+
+      try {
+        const response = componentKey
+          ? await this.figmaClient.getComponent(componentKey)
+          : await this.figmaClient.getComponentSet(componentSetKey!);
+        published.set(componentId, response.meta);
+      } catch (error: any) {
+        // The endpoints return 404 for components that have never been published
+        if (error.status === 404) {
+          logger.debug('Component is not published', { componentId, status: error.status });
+          return;
+        }
+
+        failures++;
+        logger.warn('Failed to fetch published library component', {
+          componentId,
+          message: error.message,
+          status: error.status,
+        });
+      }
+    });
+    await Promise.all(lookups);
+
+    // A failed lookup would otherwise read as unpublished, so the status is unknown for all of them
+    if (failures > 0) {
+      return null;
+    }
+
+    return published;
+  }
+
+  private extractComponentList(
+    file: FigmaFile,
+    publishedComponents: Map<string, FigmaPublishedComponent> | null = null
+  ): ComponentListItem[] {
     const components: ComponentListItem[] = [];
 
-    const traverse = (node: FigmaNode) => {
+    // Path holds the frames, sections and sets between the page and the node
+    const traverse = (node: FigmaNode, page?: string, path: string[] = [], componentSet?: FigmaNode) => {
       if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+        const published = publishedComponents?.get(node.id);
+        const definitions = node.componentPropertyDefinitions || componentSet?.componentPropertyDefinitions || {};
+        const propertyNames = Object.keys(definitions).map(name => this.normalizePropertyName(name));
+
         components.push({
           id: node.id,
+          key: file.components?.[node.id]?.key || file.componentSets?.[node.id]?.key,
           name: node.name,
           type: node.type,
-          description: this.extractDescription(node),
+          description: this.extractDescription(node, file),
+          documentationLinks: this.extractDocumentationLinks(node, file),
           variantCount: node.type === 'COMPONENT_SET' ? this.countVariants(node) : undefined,
-          lastModified: file.lastModified,
-          published: true, // TODO: Check actual published status
+          page,
+          path,
+          group: this.extractNameGroup(node.name),
+          propertyNames: propertyNames.length > 0 ? propertyNames : undefined,
+          lastModified: published?.updated_at || file.lastModified,
+          published: publishedComponents ? !!published : undefined,
+          thumbnail: published?.thumbnail_url,
         });
       }
 
       if (node.children) {
-        node.children.forEach(traverse);
+        const childPath = node.type === 'DOCUMENT' || node.type === 'CANVAS' ? [] : [...path, node.name];
+        node.children.forEach(child => traverse(
+          child,
+          child.type === 'CANVAS' ? child.name : page,
+          childPath,
+          node.type === 'COMPONENT_SET' ? node : componentSet
+        ));
       }
     };
 
@@ -257,20 +870,36 @@ export class ComponentExtractor {
     return {
       width: bounds?.width || 0,
       height: bounds?.height || 0,
+      minWidth: component.minWidth ?? undefined,
+      maxWidth: component.maxWidth ?? undefined,
     };
   }
 
-  private extractColors(component: FigmaNode) {
+  private extractColors(component: FigmaNode, bindings?: TokenBindings) {
     const colors: any[] = [];
+    const boundFills = component.boundVariables?.fills;
+    const boundStrokes = component.boundVariables?.strokes;
     
     if (component.fills) {
       component.fills.forEach((fill, index) => {
+        if (fill.visible === false) return;
+
         if (fill.type === 'SOLID' && fill.color) {
           colors.push({
             property: `fill-${index}`,
             value: this.rgbaToHex(fill.color),
+            token: this.resolveVariableToken(fill.boundVariables?.color, bindings) ||
+              this.resolveVariableToken(Array.isArray(boundFills) ? boundFills[index] : undefined, bindings) ||
+              this.resolveStyleToken(component, 'fill', bindings),
             type: 'fill',
           });
+        } else if (fill.type.startsWith('GRADIENT_') && fill.gradientStops) {
+          colors.push({
+            property: `fill-${index}`,
+            value: this.convertGradientToCSS(fill),
+            token: this.resolveStyleToken(component, 'fill', bindings),
+            type: 'gradient',
+          });
         }
       });
     }
@@ -281,6 +910,9 @@ export class ComponentExtractor {
           colors.push({
             property: `stroke-${index}`,
             value: this.rgbaToHex(stroke.color),
+            token: this.resolveVariableToken(stroke.boundVariables?.color, bindings) ||
+              this.resolveVariableToken(Array.isArray(boundStrokes) ? boundStrokes[index] : undefined, bindings) ||
+              this.resolveStyleToken(component, 'stroke', bindings),
             type: 'stroke',
           });
         }
@@ -290,7 +922,7 @@ export class ComponentExtractor {
     return colors;
   }
 
-  private extractTypography(component: FigmaNode) {
+  private extractTypography(component: FigmaNode, bindings?: TokenBindings) {
     const typography: any[] = [];
     
     if (component.style) {
@@ -300,20 +932,81 @@ export class ComponentExtractor {
         fontSize: component.style.fontSize,
         fontWeight: component.style.fontWeight,
         lineHeight: component.style.lineHeight?.value || component.style.fontSize * 1.2,
+        token: this.resolveStyleToken(component, 'text', bindings),
       });
     }
 
     return typography;
   }
 
-  private extractSpacing(component: FigmaNode) {
-    // This is simplified - would need more sophisticated logic
-    // to extract actual padding/margin from Figma components
-    return [];
+  private extractSpacing(component: FigmaNode, bindings?: TokenBindings) {
+    const spacing: any[] = [];
+    const layout = this.extractAutoLayout(component);
+
+    if (!layout) {
+      return spacing;
+    }
+
+    const bound = component.boundVariables || {};
+    const { padding } = layout;
+    if (padding.top || padding.right || padding.bottom || padding.left) {
+      // A padding entry only carries a token when one variable drives every non-zero side
+      const sideTokens = (['top', 'right', 'bottom', 'left'] as const)
+        .filter(side => padding[side])
+        .map(side => this.resolveVariableToken(bound[`padding${side.charAt(0).toUpperCase()}${side.slice(1)}`], bindings));
+      const paddingToken = sideTokens.every(token => token && token === sideTokens[0]) ? sideTokens[0] : undefined;
+
+      spacing.push({
+        property: 'padding',
+        ...padding,
+        token: paddingToken,
+      });
+    }
+
+    // Gaps are reported on the sides of the axis they separate items along
+    if (layout.itemSpacing) {
+      const token = this.resolveVariableToken(bound.itemSpacing, bindings);
+      spacing.push(layout.mode === 'HORIZONTAL'
+        ? { property: 'gap', left: layout.itemSpacing, right: layout.itemSpacing, token }
+        : { property: 'gap', top: layout.itemSpacing, bottom: layout.itemSpacing, token });
+    }
+
+    if (layout.wrap && layout.counterAxisSpacing) {
+      spacing.push({
+        property: 'row-gap',
+        top: layout.counterAxisSpacing,
+        bottom: layout.counterAxisSpacing,
+        token: this.resolveVariableToken(bound.counterAxisSpacing, bindings),
+      });
+    }
+
+    return spacing;
+  }
+
+  private extractAutoLayout(node: FigmaNode): Record<string, any> | null {
+    if (!node.layoutMode || node.layoutMode === 'NONE') {
+      return null;
+    }
+
+    return {
+      mode: node.layoutMode,
+      padding: {
+        top: node.paddingTop || 0,
+        right: node.paddingRight || 0,
+        bottom: node.paddingBottom || 0,
+        left: node.paddingLeft || 0,
+      },
+      itemSpacing: node.itemSpacing || 0,
+      counterAxisSpacing: node.counterAxisSpacing,
+      primaryAxisAlignItems: node.primaryAxisAlignItems || 'MIN',
+      counterAxisAlignItems: node.counterAxisAlignItems || 'MIN',
+      wrap: node.layoutWrap === 'WRAP',
+    };
   }
 
-  private extractEffects(component: FigmaNode) {
+  private extractEffects(component: FigmaNode, bindings?: TokenBindings) {
     const effects: any[] = [];
+    const token = this.resolveStyleToken(component, 'effect', bindings);
     
     if (component.effects) {
       component.effects.forEach((effect, index) => {
@@ -324,6 +1017,7 @@ export class ComponentExtractor {
           radius: effect.radius,
           spread: effect.spread || 0,
           visible: effect.visible !== false,
+          token,
         });
       });
     }
@@ -331,25 +1025,223 @@ export class ComponentExtractor {
     return effects;
   }
 
+  private async loadTokenBindings(fileId: string, file: FigmaFile): Promise<TokenBindings> {
+    let index: TokenReferenceIndex | null = null;
+
+    if (this.tokenExtractor) {
+      try {
+        index = await this.tokenExtractor.getTokenReferenceIndex(fileId);
+      } catch (error: any) {
+        logger.debug('Token catalogue unavailable, binding styles by name only', {
+          fileId,
+          message: error.message,
+        });
+      }
+    }
+
+    return {
+      styles: file.styles || {},
+      index,
+    };
+  }
+
+  private resolveStyleToken(
+    node: FigmaNode,
+    styleType: 'fill' | 'stroke' | 'text' | 'effect',
+    bindings?: TokenBindings
+  ): string | undefined {
+    const styleId = node.styles?.[styleType];
+    const style = styleId ? bindings?.styles[styleId] : undefined;
+    if (!style) {
+      return undefined;
+    }
+
+    // Library styles that are not part of the local catalogue still get a predictable token name
+    return bindings?.index?.styles[style.key] || this.normalizeTokenName(style.name);
+  }
+
+  private resolveVariableToken(
+    alias: VariableAlias | VariableAlias[] | undefined,
+    bindings?: TokenBindings
+  ): string | undefined {
+    const reference = Array.isArray(alias) ? alias[0] : alias;
+    if (!reference || !bindings?.index) {
+      return undefined;
+    }
+
+    return bindings.index.variables[reference.id];
+  }
+
   private extractVariants(component: FigmaNode, file: FigmaFile) {
-    // Simplified variant extraction
-    // In reality, would need to traverse component set children
-    return [];
+    const variantNodes = this.getVariantNodes(component);
+    if (variantNodes.length === 0) {
+      return [];
+    }
+
+    const defaultVariant = this.findDefaultVariant(component, variantNodes);
+    const defaultLayers = this.collectLayerProperties(defaultVariant);
+
+    return variantNodes.map(variant => ({
+      id: variant.id,
+      name: variant.name,
+      properties: this.parseVariantName(variant.name),
+      overrides: variant.id === defaultVariant.id
+        ? {}
+        : this.diffLayerProperties(defaultLayers, this.collectLayerProperties(variant)),
+    }));
+  }
+
+  private getVariantNodes(component: FigmaNode): FigmaNode[] {
+    if (component.type !== 'COMPONENT_SET') {
+      return [];
+    }
+
+    return (component.children || []).filter(child => child.type === 'COMPONENT');
+  }
+
+  private parseVariantName(name: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+
+    // Variant names follow the "Prop=Value, Other Prop=Other Value" convention
+    name.split(',').forEach(segment => {
+      const separatorIndex = segment.indexOf('=');
+      if (separatorIndex === -1) return;
+
+      const key = segment.slice(0, separatorIndex).trim();
+      const value = segment.slice(separatorIndex + 1).trim();
+      if (key) {
+        properties[key] = value;
+      }
+    });
+
+    return properties;
+  }
+
+  private findDefaultVariant(componentSet: FigmaNode, variantNodes: FigmaNode[]): FigmaNode {
+    // The set's VARIANT property definitions carry the default value of each axis
+    const defaults: Record<string, string> = {};
+    Object.entries(componentSet.componentPropertyDefinitions || {}).forEach(([name, prop]) => {
+      if (prop.type === 'VARIANT') {
+        defaults[name] = String(prop.defaultValue);
+      }
+    });
+
+    if (Object.keys(defaults).length > 0) {
+      const match = variantNodes.find(variant => {
+        const properties = this.parseVariantName(variant.name);
+        return Object.entries(defaults).every(([name, value]) => properties[name] === value);
+      });
+      if (match) return match;
+    }
+
+    // Figma treats the first variant in the set as the default one
+    return variantNodes[0];
+  }
+
+  private collectLayerProperties(root: FigmaNode): Map<string, Record<string, any>> {
+    const layers = new Map<string, Record<string, any>>();
+
+    const visit = (node: FigmaNode, path: string) => {
+      const properties = this.extractVisualProperties(node);
+
+      // Position inside the component set differs for every variant, so only size is comparable
+      if (properties.dimensions) {
+        properties.dimensions = {
+          width: properties.dimensions.width,
+          height: properties.dimensions.height,
+        };
+      }
+
+      const effects = this.extractEffects(node);
+      if (effects.length > 0) {
+        properties.effects = effects;
+      }
+      if (node.characters !== undefined) {
+        properties.characters = node.characters;
+      }
+
+      layers.set(path, properties);
+
+      // Siblings sharing a name are told apart by their position among them: "Icon", "Icon[1]"
+      const seen = new Map<string, number>();
+      node.children?.forEach(child => {
+        const index = seen.get(child.name) || 0;
+        seen.set(child.name, index + 1);
+        const name = index > 0 ? `${child.name}[${index}]` : child.name;
+        visit(child, path ? `${path}/${name}` : name);
+      });
+    };
+
+    visit(root, '');
+    return layers;
   }
 
-  private generateComponentInterface(component: FigmaNode) {
+  private diffLayerProperties(
+    base: Map<string, Record<string, any>>,
+    target: Map<string, Record<string, any>>,
+    removedLayer: Record<string, any> = { visibility: 'removed' }
+  ): Record<string, any> {
+    const overrides: Record<string, any> = {};
+    const layerOverrides: Record<string, any> = {};
+
+    target.forEach((properties, path) => {
+      const baseProperties = base.get(path);
+      const diff: Record<string, any> = {};
+
+      if (!baseProperties) {
+        // Layer only exists in this variant
+        Object.assign(diff, properties);
+      } else {
+        const keys = new Set([...Object.keys(baseProperties), ...Object.keys(properties)]);
+        keys.forEach(key => {
+          if (JSON.stringify(baseProperties[key]) !== JSON.stringify(properties[key])) {
+            diff[key] = properties[key] !== undefined ? properties[key] : null;
+          }
+        });
+      }
+
+      if (Object.keys(diff).length === 0) return;
+
+      if (path === '') {
+        Object.assign(overrides, diff);
+      } else {
+        layerOverrides[path] = diff;
+      }
+    });
+
+    base.forEach((_, path) => {
+      if (path !== '' && !target.has(path)) {
+        layerOverrides[path] = removedLayer;
+      }
+    });
+
+    if (Object.keys(layerOverrides).length > 0) {
+      overrides.layers = layerOverrides;
+    }
+
+    return overrides;
+  }
+
+  private generateComponentInterface(component: FigmaNode, file: FigmaFile) {
     const props: any[] = [];
     const events: any[] = [];
 
     // Extract props from component property definitions
     if (component.componentPropertyDefinitions) {
+      const controlledLayers = this.collectControlledLayers(component);
+
       Object.entries(component.componentPropertyDefinitions).forEach(([name, prop]) => {
+        const controls = controlledLayers.get(name) || [];
+        const propName = this.normalizePropertyName(name);
+
         props.push({
-          name,
+          name: propName,
           type: this.mapFigmaTypeToGeneric(prop.type),
           required: false,
           default: prop.defaultValue,
+          description: this.describeProperty(propName, prop.type, controls, prop.variantOptions),
           values: prop.variantOptions,
+          controls: controls.length > 0 ? controls : undefined,
         });
       });
     }
@@ -366,32 +1258,305 @@ export class ComponentExtractor {
     return {
       props,
       events,
-      slots: [], // TODO: Extract slot information
+      slots: this.extractSlots(component, file),
+    };
+  }
+
+  private collectControlledLayers(component: FigmaNode) {
+    const controlled = new Map<string, Array<{ layerId: string; layerName: string; field: 'visible' | 'characters' | 'mainComponent' }>>();
+    const seen = new Set<string>();
+    const fields = ['visible', 'characters', 'mainComponent'] as const;
+
+    const traverse = (node: FigmaNode, path: string) => {
+      fields.forEach(field => {
+        const propertyName = node.componentPropertyReferences?.[field];
+        // Every variant repeats the same layers, so a layer path is only reported once per property
+        const seenKey = `${propertyName}|${field}|${path}`;
+        if (!propertyName || seen.has(seenKey)) return;
+
+        seen.add(seenKey);
+        controlled.set(propertyName, [
+          ...(controlled.get(propertyName) || []),
+          { layerId: node.id, layerName: node.name, field },
+        ]);
+      });
+
+      node.children?.forEach(child => traverse(child, path ? `${path}/${child.name}` : child.name));
     };
+
+    const variantNodes = this.getVariantNodes(component);
+    if (variantNodes.length > 0) {
+      variantNodes.forEach(variant => variant.children?.forEach(child => traverse(child, child.name)));
+    } else {
+      component.children?.forEach(child => traverse(child, child.name));
+    }
+
+    return controlled;
+  }
+
+  private describeProperty(
+    name: string,
+    type: string,
+    controls: Array<{ layerName: string; field: string }>,
+    variantOptions?: string[]
+  ): string {
+    const layerNames = Array.from(new Set(controls.map(control => `"${control.layerName}"`))).join(', ');
+
+    switch (type) {
+      case 'BOOLEAN':
+        return layerNames ? `Toggles the visibility of ${layerNames}` : `Boolean property "${name}"`;
+      case 'TEXT':
+        return layerNames ? `Sets the text content of ${layerNames}` : `Text property "${name}"`;
+      case 'INSTANCE_SWAP':
+        return layerNames ? `Swaps the component instance shown in ${layerNames}` : `Instance swap property "${name}"`;
+      case 'VARIANT':
+        return variantOptions && variantOptions.length > 0
+          ? `Selects the ${name} variant: ${variantOptions.join(', ')}`
+          : `Selects the ${name} variant`;
+      default:
+        return name;
+    }
+  }
+
+  private extractSlots(component: FigmaNode, file: FigmaFile) {
+    const definitions = component.componentPropertyDefinitions || {};
+    const slots = new Map<string, { name: string; description?: string; required: boolean; allowedComponents?: string[] }>();
+    const componentNames = new Map(
+      Object.values(file.components || {}).map(meta => [meta.key, meta.name])
+    );
+
+    // Boolean properties that toggle the visibility of a layer make the content it holds optional
+    const isOptional = (node: FigmaNode) => {
+      const visibilityProperty = node.componentPropertyReferences?.visible;
+      return !!visibilityProperty && definitions[visibilityProperty]?.type === 'BOOLEAN';
+    };
+
+    const swapLayers = new Map<string, FigmaNode[]>();
+    const conventionLayers: FigmaNode[] = [];
+
+    const traverse = (node: FigmaNode) => {
+      const swapProperty = node.componentPropertyReferences?.mainComponent;
+      if (swapProperty) {
+        swapLayers.set(swapProperty, [...(swapLayers.get(swapProperty) || []), node]);
+      } else if (node.type === 'INSTANCE' && this.isSlotLayerName(node.name)) {
+        conventionLayers.push(node);
+      }
+      node.children?.forEach(traverse);
+    };
+    component.children?.forEach(traverse);
+
+    Object.entries(definitions).forEach(([propertyName, prop]) => {
+      if (prop.type !== 'INSTANCE_SWAP') return;
+
+      const name = this.toSlotName(propertyName);
+      const layers = swapLayers.get(propertyName) || [];
+      const allowedComponents = (prop.preferredValues || [])
+        .map((preferred: any) => componentNames.get(preferred.key) || preferred.key)
+        .filter(Boolean);
+      const defaultComponent = file.components?.[String(prop.defaultValue)]?.name;
+
+      slots.set(name, {
+        name,
+        description: defaultComponent
+          ? `Swappable instance, defaults to ${defaultComponent}`
+          : 'Swappable instance',
+        required: layers.length > 0 ? !layers.every(isOptional) : true,
+        allowedComponents: allowedComponents.length > 0 ? allowedComponents : undefined,
+      });
+    });
+
+    conventionLayers.forEach(node => {
+      const name = this.toSlotName(node.name);
+      const existing = slots.get(name);
+
+      slots.set(name, {
+        name,
+        description: existing?.description || `Content projected into the "${node.name}" layer`,
+        // Across variants a slot is only required if no variant can hide it
+        required: (existing ? existing.required : true) && !isOptional(node),
+        allowedComponents: existing?.allowedComponents,
+      });
+    });
+
+    return Array.from(slots.values());
+  }
+
+  private isSlotLayerName(name: string): boolean {
+    const lowercaseName = name.trim().toLowerCase();
+    return lowercaseName === 'slot' ||
+      lowercaseName.startsWith('slot/') ||
+      lowercaseName.endsWith('.slot');
+  }
+
+  private toSlotName(name: string): string {
+    const baseName = this.normalizePropertyName(name)
+      .replace(/^slot\//i, '')
+      .replace(/\.slot$/i, '');
+
+    const words = baseName.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    if (words.length === 0) {
+      return 'default';
+    }
+
+    return words
+      .map((word, index) => index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+
+  private normalizePropertyName(name: string): string {
+    // Figma suffixes non-variant property names with a unique id, e.g. "Icon#123:45"
+    return name.replace(/#[\d:]+$/, '').trim();
   }
 
   private buildComponentSpecification(
     componentData: ComponentData,
     component: FigmaNode,
-    options: { includeAccessibility: boolean; includeInteractions: boolean }
+    options: { includeAccessibility: boolean; includeInteractions: boolean; bindings?: TokenBindings }
   ): ComponentSpecification {
     const styling = this.extractStyling(component);
+    const anatomy = this.extractAnatomy(component, options.bindings);
     const accessibility = options.includeAccessibility ? this.extractAccessibility(component) : undefined;
     const interactions = options.includeInteractions ? this.extractInteractions(component) : undefined;
     const usage = this.generateUsageGuidelines(componentData);
 
-    return {
-      component: componentData,
-      styling,
-      accessibility,
-      interactions,
-      usage,
-    };
+    return {
+      component: componentData,
+      styling,
+      anatomy,
+      accessibility,
+      interactions,
+      usage,
+    };
+  }
+
+  private extractAnatomy(component: FigmaNode, bindings?: TokenBindings): AnatomyNode | undefined {
+    const variantNodes = this.getVariantNodes(component);
+    const root = variantNodes.length > 0 ? this.findDefaultVariant(component, variantNodes) : component;
+
+    return this.buildAnatomyNode(root, bindings, true) || undefined;
+  }
+
+  private buildAnatomyNode(node: FigmaNode, bindings?: TokenBindings, isRoot = false): AnatomyNode | null {
+    const controlledBy = this.extractPropertyReferences(node);
+
+    // Hidden layers only matter when a component property can reveal them
+    if (!isRoot && node.visible === false && !controlledBy) {
+      return null;
+    }
+
+    const role = this.inferAnatomyRole(node);
+    const children = role === 'container'
+      ? (node.children || [])
+        .map(child => this.buildAnatomyNode(child, bindings))
+        .filter((child): child is AnatomyNode => child !== null)
+      : [];
+
+    const autoLayout = this.extractAutoLayout(node);
+    const sizing = this.extractSizing(node);
+    const layout = {
+      ...(autoLayout ? this.convertLayoutToCSS(autoLayout) : {}),
+      ...(sizing ? this.convertSizingToCSS(sizing) : {}),
+    };
+    const tokens = this.resolveNodeTokens(node, bindings);
+    const hasVisuals = (node.fills || []).some(fill => fill.visible !== false) ||
+      (node.strokes || []).length > 0 ||
+      (node.effects || []).length > 0;
+
+    if (!isRoot && role === 'container') {
+      // Plain wrapper groups add nothing to the markup, so their children take their place
+      const isWrapper = !controlledBy && !hasVisuals && Object.keys(layout).length === 0 && Object.keys(tokens).length === 0;
+      if (isWrapper && children.length === 1) {
+        return children[0];
+      }
+      if (isWrapper && children.length === 0) {
+        return null;
+      }
+    }
+
+    const anatomyNode: AnatomyNode = {
+      id: node.id,
+      name: node.name,
+      role,
+    };
+
+    if (Object.keys(layout).length > 0) anatomyNode.layout = layout;
+    if (Object.keys(tokens).length > 0) anatomyNode.tokens = tokens;
+    if (controlledBy) anatomyNode.controlledBy = controlledBy;
+    if (node.type === 'TEXT' && node.characters !== undefined) anatomyNode.characters = node.characters;
+    if (node.type === 'INSTANCE' && node.componentId) anatomyNode.componentId = node.componentId;
+    if (children.length > 0) anatomyNode.children = children;
+
+    return anatomyNode;
+  }
+
+  private inferAnatomyRole(node: FigmaNode): AnatomyNode['role'] {
+    const vectorTypes = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON'];
+    const looksLikeIcon = /icon/i.test(node.name);
+
+    if (node.type === 'TEXT') {
+      return 'text';
+    }
+    if (node.type === 'INSTANCE') {
+      return looksLikeIcon ? 'icon' : 'instance';
+    }
+    if (vectorTypes.includes(node.type)) {
+      return 'icon';
+    }
+    if (node.children && node.children.length > 0) {
+      // Groups made only of vector artwork are drawn icons, not layout containers
+      const onlyVectors = node.children.every(child => vectorTypes.includes(child.type));
+      return onlyVectors || looksLikeIcon ? 'icon' : 'container';
+    }
+
+    return node.type === 'RECTANGLE' ? 'shape' : 'container';
+  }
+
+  private extractPropertyReferences(node: FigmaNode): Record<string, string> | undefined {
+    const references = node.componentPropertyReferences;
+    if (!references || Object.keys(references).length === 0) {
+      return undefined;
+    }
+
+    const controlledBy: Record<string, string> = {};
+    Object.entries(references).forEach(([field, propertyName]) => {
+      controlledBy[field] = this.normalizePropertyName(propertyName);
+    });
+
+    return controlledBy;
+  }
+
+  private resolveNodeTokens(node: FigmaNode, bindings?: TokenBindings): Record<string, string> {
+    const tokens: Record<string, string> = {};
+    const boundFills = node.boundVariables?.fills;
+    const boundStrokes = node.boundVariables?.strokes;
+
+    const fill = this.resolveVariableToken(node.fills?.[0]?.boundVariables?.color, bindings) ||
+      this.resolveVariableToken(boundFills, bindings) ||
+      this.resolveStyleToken(node, 'fill', bindings);
+    const stroke = this.resolveVariableToken(node.strokes?.[0]?.boundVariables?.color, bindings) ||
+      this.resolveVariableToken(boundStrokes, bindings) ||
+      this.resolveStyleToken(node, 'stroke', bindings);
+    const text = this.resolveStyleToken(node, 'text', bindings);
+    const effect = this.resolveStyleToken(node, 'effect', bindings);
+    const gap = this.resolveVariableToken(node.boundVariables?.itemSpacing, bindings);
+
+    if (fill) tokens.fill = fill;
+    if (stroke) tokens.stroke = stroke;
+    if (text) tokens.text = text;
+    if (effect) tokens.effect = effect;
+    if (gap) tokens.gap = gap;
+
+    return tokens;
   }
 
   private extractStyling(component: FigmaNode) {
-    const states = this.extractStatesFromLayers(component);
-    const baseStyles = this.extractVisualProperties(component);
+    const states = this.resolveStates(component);
+    const variantNodes = this.getVariantNodes(component);
+    // A component set frame is only a container, the default variant carries the real base styles
+    const baseNode = variantNodes.length > 0 ? this.findDefaultVariant(component, variantNodes) : component;
+    const baseStyles = this.extractVisualProperties(baseNode);
     
     // Convert states to CSS-like properties
     const stateStyles: Record<string, any> = {};
@@ -402,19 +1567,192 @@ export class ComponentExtractor {
       };
     });
     
-    const baseEffects = this.extractEffects(component);
+    const baseEffects = this.extractEffects(baseNode);
+    const responsive = this.extractResponsiveStyles(component, variantNodes);
     
     return {
       baseStyles: {
         ...this.convertToCSS(baseStyles),
         ...this.convertEffectsToCSS(baseEffects),
       },
-      variants: {}, // TODO: Extract variant styles
+      variants: this.extractVariantStyles(component, variantNodes),
+      responsive: responsive?.styles,
+      breakpoints: responsive?.breakpoints,
       states: stateStyles,
       stateInfo: states, // Raw state data for advanced consumers
     };
   }
 
+  private extractVariantStyles(componentSet: FigmaNode, variantNodes: FigmaNode[]): Record<string, Record<string, any>> {
+    const variantStyles: Record<string, Record<string, any>> = {};
+    if (variantNodes.length < 2) {
+      return variantStyles;
+    }
+
+    const defaultVariant = this.findDefaultVariant(componentSet, variantNodes);
+    const defaultProperties = this.parseVariantName(defaultVariant.name);
+    const defaultStyles = this.collectLayerStyles(defaultVariant);
+    const breakpointAxis = this.findBreakpointAxis(defaultProperties);
+
+    const axes = new Map<string, Set<string>>();
+    variantNodes.forEach(variant => {
+      Object.entries(this.parseVariantName(variant.name)).forEach(([axis, value]) => {
+        // Breakpoints are reported as media queries in the responsive section instead
+        if (axis === breakpointAxis) return;
+        axes.set(axis, (axes.get(axis) || new Set()).add(value));
+      });
+    });
+
+    axes.forEach((values, axis) => {
+      values.forEach(value => {
+        if (value === defaultProperties[axis]) return;
+
+        // Prefer the variant that only differs from the default on this axis, so the delta isolates it
+        const candidates = variantNodes.filter(variant => this.parseVariantName(variant.name)[axis] === value);
+        const isolated = candidates.find(variant => {
+          const properties = this.parseVariantName(variant.name);
+          return Object.entries(defaultProperties).every(([name, defaultValue]) =>
+            name === axis || properties[name] === defaultValue
+          );
+        });
+
+        const delta = this.diffLayerProperties(
+          defaultStyles,
+          this.collectLayerStyles(isolated || candidates[0]),
+          { display: 'none' }
+        );
+
+        if (Object.keys(delta).length > 0) {
+          variantStyles[`${this.normalizeTokenName(axis)}.${this.normalizeTokenName(value)}`] = delta;
+        }
+      });
+    });
+
+    return variantStyles;
+  }
+
+  private extractResponsiveStyles(
+    componentSet: FigmaNode,
+    variantNodes: FigmaNode[]
+  ): { styles: Record<string, Record<string, any>>; breakpoints: Record<string, string> } | undefined {
+    if (variantNodes.length < 2) {
+      return undefined;
+    }
+
+    const defaultVariant = this.findDefaultVariant(componentSet, variantNodes);
+    const defaultProperties = this.parseVariantName(defaultVariant.name);
+    const breakpointAxis = this.findBreakpointAxis(defaultProperties);
+    if (!breakpointAxis) {
+      return undefined;
+    }
+
+    // Pick one representative variant per breakpoint, preferring the one matching the default elsewhere
+    const breakpoints = new Map<string, FigmaNode>();
+    variantNodes.forEach(variant => {
+      const properties = this.parseVariantName(variant.name);
+      const value = properties[breakpointAxis];
+      if (!value) return;
+
+      const isolated = Object.entries(defaultProperties).every(([name, defaultValue]) =>
+        name === breakpointAxis || properties[name] === defaultValue
+      );
+      if (!breakpoints.has(value) || isolated) {
+        breakpoints.set(value, variant);
+      }
+    });
+
+    const defaultValue = defaultProperties[breakpointAxis];
+    const entries = Array.from(breakpoints.entries()).map(([value, variant]) => ({
+      value,
+      variant,
+      width: this.getBreakpointMinWidth(value, variant),
+    }));
+    const defaultWidth = entries.find(entry => entry.value === defaultValue)?.width || 0;
+    const sortedWidths = Array.from(new Set(entries.map(entry => entry.width))).sort((a, b) => a - b);
+    const others = entries.filter(entry => entry.value !== defaultValue);
+
+    // Overlapping queries cascade, so max-width blocks run widest first and min-width blocks narrowest first
+    const narrower = others.filter(entry => entry.width <= defaultWidth).sort((a, b) => b.width - a.width);
+    const wider = others.filter(entry => entry.width > defaultWidth).sort((a, b) => a.width - b.width);
+
+    const styles: Record<string, Record<string, any>> = {};
+    const breakpointNames: Record<string, string> = {};
+
+    [narrower, wider].forEach(chain => {
+      // Each block is diffed against the one before it, which is what already applies at that width
+      let previousStyles = this.collectLayerStyles(defaultVariant);
+
+      chain.forEach(({ value, variant, width }) => {
+        let mediaQuery: string;
+        if (width > defaultWidth) {
+          mediaQuery = `@media (min-width: ${width}px)`;
+        } else {
+          // Smaller breakpoints apply up to the next larger breakpoint (desktop-first defaults)
+          const nextWidth = sortedWidths.find(candidate => candidate > width) ?? defaultWidth;
+          mediaQuery = `@media (max-width: ${nextWidth - 1}px)`;
+        }
+
+        const variantStyles = this.collectLayerStyles(variant);
+        const delta = this.diffLayerProperties(previousStyles, variantStyles, { display: 'none' });
+        previousStyles = variantStyles;
+
+        if (Object.keys(delta).length > 0) {
+          styles[mediaQuery] = delta;
+          breakpointNames[mediaQuery] = value;
+        }
+      });
+    });
+
+    return Object.keys(styles).length > 0 ? { styles, breakpoints: breakpointNames } : undefined;
+  }
+
+  private findBreakpointAxis(variantProperties: Record<string, string>): string | undefined {
+    const breakpointAxisNames = ['breakpoint', 'device', 'viewport', 'screen', 'screen size'];
+    return Object.keys(variantProperties).find(name =>
+      breakpointAxisNames.includes(name.trim().toLowerCase())
+    );
+  }
+
+  private getBreakpointMinWidth(value: string, variant: FigmaNode): number {
+    const knownBreakpoints: Record<string, number> = {
+      'mobile': 0,
+      'phone': 0,
+      'sm': 0,
+      'small': 0,
+      'tablet': 768,
+      'md': 768,
+      'medium': 768,
+      'desktop': 1024,
+      'laptop': 1024,
+      'lg': 1024,
+      'large': 1024,
+      'wide': 1440,
+      'widescreen': 1440,
+      'xl': 1440,
+    };
+
+    const known = knownBreakpoints[value.trim().toLowerCase()];
+    if (known !== undefined) {
+      return known;
+    }
+
+    // Unknown breakpoint names fall back to the frame width the designer drew them at
+    return Math.round(variant.absoluteBoundingBox?.width || 0);
+  }
+
+  private collectLayerStyles(root: FigmaNode): Map<string, Record<string, any>> {
+    const styles = new Map<string, Record<string, any>>();
+
+    this.collectLayerProperties(root).forEach((properties, path) => {
+      styles.set(path, {
+        ...this.convertToCSS(properties),
+        ...this.convertEffectsToCSS(properties.effects || []),
+      });
+    });
+
+    return styles;
+  }
+
   private extractAccessibility(component: FigmaNode) {
     return {
       role: this.inferAriaRole(component),
@@ -423,7 +1761,7 @@ export class ComponentExtractor {
   }
 
   private extractInteractions(component: FigmaNode) {
-    const states = this.extractStatesFromLayers(component);
+    const states = this.resolveStates(component);
     logger.debug(`Found ${Object.keys(states).length} states in component ${component.name}`, { states: Object.keys(states) });
     
     return {
@@ -436,37 +1774,322 @@ export class ComponentExtractor {
   }
 
   private generateUsageGuidelines(componentData: ComponentData) {
+    const guidelines: string[] = [];
+    const doNot: string[] = [];
+    const negativePattern = /^((don['’]?t|do not|never|avoid)\b|❌|🚫)/i;
+    const negativeLabel = /^((don['’]?t|do not)\s*:|❌|🚫)/i;
+    const positiveLabel = /^(do\s*:|✅)/i;
+    let section: 'guidelines' | 'doNot' | null = null;
+
+    (componentData.description || '').split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.trim();
+      if (!line) return;
+
+      // Headings such as "Do's:" or "Don'ts" switch the section for the bullets that follow
+      const heading = line.replace(/^#+\s*/, '').replace(/[:\s]+$/, '').toLowerCase();
+      if (/^(don['’]?ts?|do not)$/.test(heading)) {
+        section = 'doNot';
+        return;
+      }
+      if (/^(do['’]?s?|usage|guidelines?|when to use)$/.test(heading)) {
+        section = 'guidelines';
+        return;
+      }
+
+      const text = line.replace(/^([-*•]|\d+[.)])\s+/, '').trim();
+      if (!text) return;
+
+      if (negativePattern.test(text) || section === 'doNot') {
+        doNot.push(this.stripGuidelineLabel(text, negativeLabel));
+      } else {
+        guidelines.push(this.stripGuidelineLabel(text, positiveLabel));
+      }
+    });
+
     return {
-      guidelines: [
-        `Use ${componentData.name} for consistent UI patterns`,
-        'Follow the design system guidelines for proper implementation',
-      ],
+      guidelines,
       examples: [],
-      doNot: [],
+      doNot,
+      documentationLinks: componentData.documentationLinks,
     };
   }
 
-  private applyFilters(components: ComponentListItem[], filter?: any): ComponentListItem[] {
-    if (!filter) return components;
+  private stripGuidelineLabel(text: string, label: RegExp): string {
+    const stripped = text.replace(label, '').trim();
+    return stripped ? stripped.charAt(0).toUpperCase() + stripped.slice(1) : text;
+  }
+
+  private scoreSearchResult(
+    component: ComponentListItem,
+    node: FigmaNode | null,
+    query: string,
+    terms: string[]
+  ): ComponentSearchResult | null {
+    const fields: Array<[ComponentSearchField, string[]]> = [
+      ['name', [component.name]],
+      ['path', [component.page, ...(component.path || [])].filter((value): value is string => !!value)],
+      ['variantValues', node ? this.collectVariantValues(node) : []],
+      ['description', component.description ? [component.description] : []],
+      ['text', node ? this.collectTextContent(node) : []],
+    ];
+
+    const matches: ComponentSearchResult['matches'] = [];
+    let total = 0;
+
+    // Each term counts once, through the field where it matches best
+    terms.forEach(term => {
+      let best = 0;
+
+      fields.forEach(([field, values]) => {
+        values.forEach(value => {
+          const termScore = this.scoreSearchTerm(term, value);
+          if (termScore === 0) return;
+
+          best = Math.max(best, termScore * SEARCH_FIELD_WEIGHTS[field]);
 
-    return components.filter(component => {
-      if (filter.type && component.type !== filter.type) return false;
-      if (filter.name && !new RegExp(filter.name, 'i').test(component.name)) return false;
-      if (filter.published !== undefined && component.published !== filter.published) return false;
-      return true;
+          const existing = matches.find(match => match.field === field && match.value === value);
+          if (existing) {
+            existing.terms.push(term);
+          } else {
+            matches.push({ field, value, terms: [term] });
+          }
+        });
+      });
+
+      total += best;
     });
+
+    if (total === 0) {
+      return null;
+    }
+
+    // Names that contain the whole query, e.g. "date picker" in "DatePicker", rank above scattered matches
+    const compactQuery = this.compactSearchText(query);
+    const phraseBonus = compactQuery.length > 2 && this.compactSearchText(component.name).includes(compactQuery) ? 0.25 : 0;
+
+    return {
+      component,
+      score: Math.round((total / terms.length + phraseBonus) * 1000) / 1000,
+      matches,
+    };
   }
 
-  private extractDescription(component: FigmaNode): string | undefined {
-    // Figma doesn't directly store descriptions in the node structure
-    // This would typically come from the component metadata
-    return undefined;
+  private scoreSearchTerm(term: string, value: string): number {
+    let best = 0;
+
+    for (const word of this.tokenizeSearchText(value)) {
+      if (word === term) return 1;
+      if (term.length >= 2 && word.startsWith(term)) best = Math.max(best, 0.8);
+      else if (term.length >= 3 && word.includes(term)) best = Math.max(best, 0.6);
+      else if (this.isTypoOf(term, word)) best = Math.max(best, 0.5);
+    }
+
+    // Catches terms written across word boundaries, e.g. "datepicker" against "Date Picker"
+    if (best < 0.6 && term.length >= 4 && this.compactSearchText(value).includes(term)) {
+      best = 0.6;
+    }
+
+    return best;
+  }
+
+  private isTypoOf(term: string, word: string): boolean {
+    const allowed = term.length >= 7 ? 2 : term.length >= 4 ? 1 : 0;
+    if (allowed === 0 || Math.abs(term.length - word.length) > allowed) {
+      return false;
+    }
+
+    let previous = Array.from({ length: word.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= term.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= word.length; j++) {
+        const cost = term[i - 1] === word[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return previous[word.length] <= allowed;
+  }
+
+  private tokenizeSearchText(text: string): string[] {
+    return text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+  }
+
+  private compactSearchText(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+  }
+
+  private collectVariantValues(node: FigmaNode): string[] {
+    const values = new Set<string>();
+
+    Object.values(node.componentPropertyDefinitions || {}).forEach(definition => {
+      if (definition.type === 'VARIANT') {
+        definition.variantOptions?.forEach(option => values.add(option));
+      }
+    });
+
+    if (node.type === 'COMPONENT') {
+      Object.values(this.parseVariantName(node.name)).forEach(value => values.add(value));
+    }
+
+    return Array.from(values);
+  }
+
+  private collectTextContent(node: FigmaNode): string[] {
+    const texts = new Set<string>();
+
+    const traverse = (current: FigmaNode) => {
+      if (current.type === 'TEXT' && current.characters?.trim()) {
+        texts.add(current.characters.trim());
+      }
+      current.children?.forEach(traverse);
+    };
+    traverse(node);
+
+    return Array.from(texts);
+  }
+
+  private getSortKey(
+    component: ComponentListItem,
+    sortBy: string | undefined,
+    position: number
+  ): ComponentSortKey {
+    // Dates and variant counts are negated so the newest and largest components come first
+    switch (sortBy) {
+      case 'name':
+        return [component.name];
+      case 'page':
+        return [component.page || '', component.name];
+      case 'lastModified':
+        return [-new Date(component.lastModified).getTime(), component.name];
+      case 'variantCount':
+        return [-(component.variantCount || 0), component.name];
+      default:
+        return [position];
+    }
+  }
+
+  private compareSortKeys(a: ComponentSortKey, aId: string, b: ComponentSortKey, bId: string): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const left = a[i];
+      const right = b[i];
+      if (left === right) continue;
+
+      const result = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left ?? '').localeCompare(String(right ?? ''), 'en', { numeric: true, sensitivity: 'base' });
+      if (result !== 0) return result;
+    }
+
+    // Ids break ties so every component has a fixed place in the order
+    return aId < bId ? -1 : aId > bId ? 1 : 0;
+  }
+
+  private encodeCursor(key: ComponentSortKey, id: string, sortBy?: string): string {
+    return Buffer.from(JSON.stringify({ sortBy: sortBy || 'document', key, id })).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sortBy?: string): { key: ComponentSortKey; id: string } {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+
+    if (!decoded || !Array.isArray(decoded.key) || typeof decoded.id !== 'string') {
+      throw new Error('Invalid cursor');
+    }
+
+    if (decoded.sortBy !== (sortBy || 'document')) {
+      throw new Error(`Cursor was created for sortBy "${decoded.sortBy}", not "${sortBy || 'document'}"`);
+    }
+
+    return { key: decoded.key, id: decoded.id };
+  }
+
+  private matchesFilter(component: ComponentListItem, filter?: any): boolean {
+    if (!filter) return true;
+
+    if (filter.type && component.type !== filter.type) return false;
+    if (filter.name && !new RegExp(filter.name, 'i').test(component.name)) return false;
+    if (filter.published !== undefined && component.published !== filter.published) return false;
+    if (filter.page && component.page?.toLowerCase() !== filter.page.toLowerCase()) return false;
+    if (filter.pathPrefix && !this.hasSegmentPrefix(component.path || [], filter.pathPrefix)) return false;
+    if (filter.group && !this.hasSegmentPrefix(component.group?.split('/') || [], filter.group)) return false;
+    if (filter.description && !component.description?.toLowerCase().includes(filter.description.toLowerCase())) return false;
+    if (filter.hasVariants !== undefined && ((component.variantCount || 0) > 0) !== filter.hasVariants) return false;
+
+    if (filter.propertyNames) {
+      const names = (component.propertyNames || []).map(name => name.toLowerCase());
+      if (!filter.propertyNames.every((name: string) => names.includes(name.toLowerCase()))) return false;
+    }
+
+    return true;
+  }
+
+  private hasSegmentPrefix(segments: string[], prefix: string): boolean {
+    // Whole segments only, so "Form" does not match a "Forms" frame
+    const path = segments.join('/').toLowerCase();
+    const expected = prefix.replace(/^\/+|\/+$/g, '').toLowerCase();
+    return path === expected || path.startsWith(`${expected}/`);
+  }
+
+  private extractNameGroup(name: string): string | undefined {
+    // "Forms/Input/Text" belongs to the "Forms/Input" group
+    const segments = name.split('/').map(segment => segment.trim()).filter(Boolean);
+    return segments.length > 1 ? segments.slice(0, -1).join('/') : undefined;
+  }
+
+  private extractDescription(component: FigmaNode, file: FigmaFile): string | undefined {
+    // Descriptions live in the file-level component metadata, not on the node itself
+    const metadata = this.getComponentMetadata(component, file);
+    return metadata?.description?.trim() || undefined;
+  }
+
+  private extractDocumentationLinks(component: FigmaNode, file: FigmaFile): string[] | undefined {
+    const links = (this.getComponentMetadata(component, file)?.documentationLinks || [])
+      .map(link => link.uri)
+      .filter(Boolean);
+
+    return links.length > 0 ? links : undefined;
+  }
+
+  private getComponentMetadata(component: FigmaNode, file: FigmaFile) {
+    const metadata = file.components?.[component.id] || file.componentSets?.[component.id];
+
+    // Variants without their own notes inherit the description of their component set
+    if (!metadata?.description && file.components?.[component.id]?.componentSetId) {
+      const setMetadata = file.componentSets?.[file.components[component.id].componentSetId!];
+      if (setMetadata) {
+        return {
+          description: setMetadata.description,
+          documentationLinks: metadata?.documentationLinks?.length
+            ? metadata.documentationLinks
+            : setMetadata.documentationLinks,
+        };
+      }
+    }
+
+    return metadata;
   }
 
   private countVariants(component: FigmaNode): number {
     return component.children?.length || 0;
   }
 
+  private normalizeTokenName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
   private rgbaToHex(rgba: RGBA): string {
     const r = Math.round(rgba.r * 255);
     const g = Math.round(rgba.g * 255);
@@ -522,6 +2145,78 @@ export class ComponentExtractor {
     return navigation;
   }
 
+  private resolveStates(component: FigmaNode): Record<string, any> {
+    const variantNodes = this.getVariantNodes(component);
+
+    // Layer names are only a heuristic, so they are consulted only when there are no variants to read
+    if (variantNodes.length === 0) {
+      return this.extractStatesFromLayers(component);
+    }
+
+    return this.extractStatesFromVariants(component, variantNodes);
+  }
+
+  private extractStatesFromVariants(componentSet: FigmaNode, variantNodes: FigmaNode[]): Record<string, any> {
+    const states: Record<string, any> = {};
+    const stateAxisNames = ['state', 'interaction', 'status'];
+
+    const defaultProperties = this.parseVariantName(this.findDefaultVariant(componentSet, variantNodes).name);
+    const stateAxis = stateAxisNames
+      .map(axisName => Object.keys(defaultProperties).find(name => name.trim().toLowerCase() === axisName))
+      .find(Boolean);
+
+    if (!stateAxis) {
+      logger.debug(`No state variant property found in component set ${componentSet.name}`);
+      return states;
+    }
+
+    variantNodes.forEach(variant => {
+      const properties = this.parseVariantName(variant.name);
+      const value = properties[stateAxis];
+      if (!value || value === defaultProperties[stateAxis]) return;
+
+      const stateName = this.normalizeTokenName(value);
+      // Prefer the variant that matches the default on every other axis
+      const isolated = Object.entries(defaultProperties).every(([name, defaultValue]) =>
+        name === stateAxis || properties[name] === defaultValue
+      );
+      if (states[stateName] && !isolated) return;
+
+      states[stateName] = {
+        ...this.buildStateData(variant),
+        source: 'variant-property',
+        variantProperty: stateAxis,
+        variantName: variant.name,
+      };
+    });
+
+    logger.debug(`States found in variants of ${componentSet.name}`, { states: Object.keys(states) });
+    return states;
+  }
+
+  private buildStateData(node: FigmaNode): Record<string, any> {
+    const state: Record<string, any> = {
+      layerName: node.name,
+      properties: this.extractVisualProperties(node),
+      colors: this.extractColors(node),
+      effects: this.extractEffects(node),
+      visibility: node.visible !== false,
+    };
+
+    // If this node has children, they might contain additional state details
+    if (node.children) {
+      state.childStates = {};
+      node.children.forEach(child => {
+        const childState = this.extractVisualProperties(child);
+        if (Object.keys(childState).length > 0) {
+          state.childStates[child.name] = childState;
+        }
+      });
+    }
+
+    return state;
+  }
+
   private extractStatesFromLayers(component: FigmaNode): Record<string, any> {
     const states: Record<string, any> = {};
     const statePatterns = [
@@ -549,31 +2244,13 @@ export class ComponentExtractor {
       if (stateName) {
         logger.debug(`${indent}✅ Found state: ${stateName}`);
         
-        // Extract visual properties for this state
-        const effects = this.extractEffects(node);
-        const properties = this.extractVisualProperties(node);
-        
         states[stateName] = {
-          layerName: node.name,
-          properties,
-          colors: this.extractColors(node),
-          effects,
-          visibility: node.visible !== false,
+          ...this.buildStateData(node),
+          source: 'layer-name',
         };
         
-        if (effects.length > 0) {
-          logger.debug(`${indent}  📐 Found ${effects.length} effects`, { effects: effects.map(e => `${e.type}(${e.radius}px)`) });
-        }
-        
-        // If this node has children, they might contain additional state details
-        if (node.children) {
-          states[stateName].childStates = {};
-          node.children.forEach(child => {
-            const childState = this.extractVisualProperties(child);
-            if (Object.keys(childState).length > 0) {
-              states[stateName].childStates[child.name] = childState;
-            }
-          });
+        if (states[stateName].effects.length > 0) {
+          logger.debug(`${indent}  📐 Found ${states[stateName].effects.length} effects`, { effects: states[stateName].effects.map((e: any) => `${e.type}(${e.radius}px)`) });
         }
       }
       
@@ -641,14 +2318,31 @@ export class ComponentExtractor {
       properties.visibility = 'hidden';
     }
     
-    // Extract fills (background colors)
-    if (node.fills && node.fills.length > 0) {
-      properties.fills = node.fills.map(fill => {
+    // Extract fills (background colors, gradients and images)
+    const visibleFills = (node.fills || []).filter(fill => fill.visible !== false);
+    if (visibleFills.length > 0) {
+      properties.fills = visibleFills.map(fill => {
         if (fill.type === 'SOLID' && fill.color) {
           return {
             type: fill.type,
             color: this.rgbaToHex(fill.color),
-            opacity: fill.opacity || 1,
+            opacity: fill.opacity ?? 1,
+            rgba: this.rgbaToCSS({ ...fill.color, a: (fill.color.a ?? 1) * (fill.opacity ?? 1) }),
+          };
+        }
+        if (fill.type.startsWith('GRADIENT_') && fill.gradientStops) {
+          return {
+            type: fill.type,
+            gradient: this.convertGradientToCSS(fill),
+            opacity: fill.opacity ?? 1,
+          };
+        }
+        if (fill.type === 'IMAGE') {
+          return {
+            type: fill.type,
+            imageRef: fill.imageRef,
+            scaleMode: fill.scaleMode || 'FILL',
+            opacity: fill.opacity ?? 1,
           };
         }
         return fill;
@@ -674,6 +2368,18 @@ export class ComponentExtractor {
       properties.cornerRadius = node.cornerRadius;
     }
     
+    // Extract resizing behaviour
+    const sizing = this.extractSizing(node);
+    if (sizing) {
+      properties.sizing = sizing;
+    }
+    
+    // Extract auto-layout (flexbox) properties
+    const layout = this.extractAutoLayout(node);
+    if (layout) {
+      properties.layout = layout;
+    }
+    
     // Extract text properties for text nodes
     if (node.type === 'TEXT' && node.style) {
       properties.typography = {
@@ -697,6 +2403,11 @@ export class ComponentExtractor {
       css.height = `${properties.dimensions.height}px`;
     }
     
+    // Fluid sizing replaces the fixed dimensions
+    if (properties.sizing) {
+      Object.assign(css, this.convertSizingToCSS(properties.sizing));
+    }
+    
     // Convert opacity
     if (properties.opacity !== undefined) {
       css.opacity = properties.opacity;
@@ -710,11 +2421,11 @@ export class ComponentExtractor {
     // Convert fills to background
     if (properties.fills && properties.fills.length > 0) {
       const primaryFill = properties.fills[0];
-      if (primaryFill.type === 'SOLID') {
-        css.backgroundColor = primaryFill.color;
-        if (primaryFill.opacity !== 1) {
-          css.backgroundOpacity = primaryFill.opacity;
-        }
+      if (properties.fills.length === 1 && primaryFill.type === 'SOLID') {
+        // Paint opacity only affects the fill, so it belongs in the color rather than in CSS opacity
+        css.backgroundColor = primaryFill.opacity < 1 ? primaryFill.rgba : primaryFill.color;
+      } else {
+        Object.assign(css, this.convertFillLayersToCSS(properties.fills));
       }
     }
     
@@ -733,6 +2444,11 @@ export class ComponentExtractor {
       css.borderRadius = `${properties.cornerRadius}px`;
     }
     
+    // Convert auto-layout to flexbox
+    if (properties.layout) {
+      Object.assign(css, this.convertLayoutToCSS(properties.layout));
+    }
+    
     // Convert typography
     if (properties.typography) {
       Object.assign(css, {
@@ -746,6 +2462,167 @@ export class ComponentExtractor {
     return css;
   }
 
+  private convertFillLayersToCSS(fills: any[]): Record<string, any> {
+    const css: Record<string, any> = {};
+    // Figma lists fills bottom to top, CSS lists background layers top to bottom
+    const layers = [...fills].reverse();
+
+    // A solid bottom layer maps onto background-color, which CSS always paints beneath the images
+    const bottomLayer = layers[layers.length - 1];
+    if (bottomLayer?.type === 'SOLID') {
+      css.backgroundColor = bottomLayer.rgba;
+      layers.pop();
+    }
+
+    // Image fills only carry an imageRef hash that has to be resolved through the file images
+    // endpoint, so they stay in the fill data and are left out of the CSS
+    const imageLayers = layers.map(fill => {
+      if (fill.type === 'SOLID') {
+        return `linear-gradient(${fill.rgba}, ${fill.rgba})`;
+      }
+      return fill.gradient || null;
+    }).filter((layer): layer is string => layer !== null);
+
+    if (imageLayers.length > 0) {
+      css.backgroundImage = imageLayers.join(', ');
+    }
+
+    return css;
+  }
+
+  private convertGradientToCSS(paint: Paint): string {
+    const paintOpacity = paint.opacity ?? 1;
+    const stops = (paint.gradientStops || [])
+      .map(stop => {
+        const color = this.rgbaToCSS({ ...stop.color, a: (stop.color.a ?? 1) * paintOpacity });
+        return `${color} ${this.roundNumber(stop.position * 100)}%`;
+      })
+      .join(', ');
+
+    const [start, end] = this.getGradientHandles(paint);
+    const center = `${this.roundNumber(start.x * 100)}% ${this.roundNumber(start.y * 100)}%`;
+    // CSS angles start at "to top" and run clockwise; Figma coordinates grow downwards
+    const angle = this.roundNumber(
+      ((Math.atan2(end.x - start.x, -(end.y - start.y)) * 180) / Math.PI + 360) % 360
+    );
+
+    switch (paint.type) {
+      case 'GRADIENT_LINEAR':
+        return `linear-gradient(${angle}deg, ${stops})`;
+      case 'GRADIENT_RADIAL':
+        return `radial-gradient(ellipse at ${center}, ${stops})`;
+      case 'GRADIENT_ANGULAR':
+        return `conic-gradient(from ${angle}deg at ${center}, ${stops})`;
+      case 'GRADIENT_DIAMOND':
+        // CSS has no diamond gradient; the closest single-layer equivalent is a radial one
+        return `radial-gradient(closest-side at ${center}, ${stops})`;
+      default:
+        return stops;
+    }
+  }
+
+  private getGradientHandles(paint: Paint): [{ x: number; y: number }, { x: number; y: number }] {
+    if (paint.gradientHandlePositions && paint.gradientHandlePositions.length >= 2) {
+      return [paint.gradientHandlePositions[0], paint.gradientHandlePositions[1]];
+    }
+
+    // The transform maps node space into gradient space, so its inverse gives the handle positions
+    const transform = paint.gradientTransform;
+    if (transform && transform.length >= 2) {
+      const [[a, b, c], [d, e, f]] = transform;
+      const determinant = a * e - b * d;
+      if (determinant !== 0) {
+        const invert = (x: number, y: number) => ({
+          x: (e * (x - c) - b * (y - f)) / determinant,
+          y: (a * (y - f) - d * (x - c)) / determinant,
+        });
+        return [invert(0, 0.5), invert(1, 0.5)];
+      }
+    }
+
+    // Figma's default gradient runs from top to bottom through the centre
+    return [{ x: 0.5, y: 0 }, { x: 0.5, y: 1 }];
+  }
+
+  private roundNumber(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private extractSizing(node: FigmaNode): Record<string, any> | null {
+    const sizing: Record<string, any> = {};
+
+    const horizontal = node.layoutSizingHorizontal ||
+      (['LEFT_RIGHT', 'SCALE'].includes(node.constraints?.horizontal || '') ? 'FILL' : undefined);
+    const vertical = node.layoutSizingVertical ||
+      (['TOP_BOTTOM', 'SCALE'].includes(node.constraints?.vertical || '') ? 'FILL' : undefined);
+
+    if (horizontal && horizontal !== 'FIXED') sizing.horizontal = horizontal;
+    if (vertical && vertical !== 'FIXED') sizing.vertical = vertical;
+    if (node.minWidth != null) sizing.minWidth = node.minWidth;
+    if (node.maxWidth != null) sizing.maxWidth = node.maxWidth;
+    if (node.minHeight != null) sizing.minHeight = node.minHeight;
+    if (node.maxHeight != null) sizing.maxHeight = node.maxHeight;
+
+    return Object.keys(sizing).length > 0 ? sizing : null;
+  }
+
+  private convertSizingToCSS(sizing: Record<string, any>): Record<string, any> {
+    const sizeMap: Record<string, string> = {
+      'FILL': '100%',
+      'HUG': 'fit-content',
+    };
+    const css: Record<string, any> = {};
+
+    if (sizing.horizontal) css.width = sizeMap[sizing.horizontal];
+    if (sizing.vertical) css.height = sizeMap[sizing.vertical];
+    if (sizing.minWidth !== undefined) css.minWidth = `${sizing.minWidth}px`;
+    if (sizing.maxWidth !== undefined) css.maxWidth = `${sizing.maxWidth}px`;
+    if (sizing.minHeight !== undefined) css.minHeight = `${sizing.minHeight}px`;
+    if (sizing.maxHeight !== undefined) css.maxHeight = `${sizing.maxHeight}px`;
+
+    return css;
+  }
+
+  private convertLayoutToCSS(layout: Record<string, any>): Record<string, any> {
+    const justifyContentMap: Record<string, string> = {
+      'MIN': 'flex-start',
+      'CENTER': 'center',
+      'MAX': 'flex-end',
+      'SPACE_BETWEEN': 'space-between',
+    };
+    const alignItemsMap: Record<string, string> = {
+      'MIN': 'flex-start',
+      'CENTER': 'center',
+      'MAX': 'flex-end',
+      'BASELINE': 'baseline',
+    };
+
+    const css: Record<string, any> = {
+      display: 'flex',
+      flexDirection: layout.mode === 'HORIZONTAL' ? 'row' : 'column',
+      justifyContent: justifyContentMap[layout.primaryAxisAlignItems] || 'flex-start',
+      alignItems: alignItemsMap[layout.counterAxisAlignItems] || 'flex-start',
+    };
+
+    if (layout.wrap) {
+      css.flexWrap = 'wrap';
+    }
+
+    // CSS gap shorthand is "row column"; wrapped rows use the counter axis spacing
+    if (layout.wrap && layout.counterAxisSpacing !== undefined) {
+      css.gap = `${layout.counterAxisSpacing}px ${layout.itemSpacing}px`;
+    } else if (layout.itemSpacing) {
+      css.gap = `${layout.itemSpacing}px`;
+    }
+
+    const { top, right, bottom, left } = layout.padding;
+    if (top || right || bottom || left) {
+      css.padding = `${top}px ${right}px ${bottom}px ${left}px`;
+    }
+
+    return css;
+  }
+
   private convertEffectsToCSS(effects: any[]): Record<string, any> {
     const css: Record<string, any> = {};
     
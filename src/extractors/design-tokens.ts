@@ -1,8 +1,22 @@
 import { FigmaClient } from '../figma/client.js';
 import { CacheService } from '../services/cache.js';
 import { logger } from '../utils/logger.js';
-import { DesignToken, FigmaStyle, RGBA } from '../types/figma.js';
+import { DesignToken, Effect, FigmaNode, FigmaPublishedStyle, RGBA, TypeStyle } from '../types/figma.js';
 import { GetDesignTokensArgsSchema } from '../utils/validation.js';
+import { TokenFormatter } from '../formatters/base.js';
+import { AndroidColorsFormatter, AndroidDimensFormatter } from '../formatters/android.js';
+import { ComposeFormatter } from '../formatters/compose.js';
+import { CSSVariablesFormatter } from '../formatters/css-variables.js';
+import { DTCGFormatter } from '../formatters/dtcg.js';
+import { SCSSFormatter } from '../formatters/scss.js';
+import { StyleDictionaryFormatter } from '../formatters/style-dictionary.js';
+import { SwiftFormatter } from '../formatters/swift.js';
+import { TailwindFormatter } from '../formatters/tailwind.js';
+import { TypeScriptFormatter } from '../formatters/typescript.js';
+
+// Keeps the nodes request URL well below Figma's length limit
+const STYLE_NODE_BATCH_SIZE = 100;
+const SHADOW_EFFECT_TYPES = new Set(['DROP_SHADOW', 'INNER_SHADOW']);
 
 export interface TokenCollection {
   colors: DesignToken[];
@@ -17,16 +31,97 @@ export interface TokenCollection {
   };
 }
 
+export interface FormattedTokens {
+  format: string;
+  content: string;
+  tokenCount: number;
+  _metadata?: TokenCollection['_metadata'];
+}
+
+export interface TokenReferenceIndex {
+  styles: Record<string, string>;
+  variables: Record<string, string>;
+}
+
 export class DesignTokenExtractor {
+  private formatters = new Map<string, TokenFormatter>();
+
   constructor(
     private figmaClient: FigmaClient,
     private cache: CacheService
-  ) {}
+  ) {
+    [
+      new CSSVariablesFormatter(),
+      new DTCGFormatter(),
+      new TailwindFormatter(),
+      new SCSSFormatter(),
+      new TypeScriptFormatter(),
+      new StyleDictionaryFormatter(),
+      new AndroidColorsFormatter(),
+      new AndroidDimensFormatter(),
+      new SwiftFormatter(),
+      new ComposeFormatter(),
+    ].forEach(formatter => this.registerFormatter(formatter));
+  }
+
+  registerFormatter(formatter: TokenFormatter): void {
+    if (formatter.format === 'standard') {
+      throw new Error('The "standard" format is reserved for raw token JSON');
+    }
+    this.formatters.set(formatter.format, formatter);
+  }
+
+  getAvailableFormats(): Array<{ format: string; description: string }> {
+    return [
+      { format: 'standard', description: 'Raw token JSON grouped by type' },
+      ...Array.from(this.formatters.values(), ({ format, description }) => ({ format, description })),
+    ];
+  }
 
-  async extractTokens(args: any): Promise<TokenCollection> {
+  async extractTokens(args: any): Promise<TokenCollection | FormattedTokens> {
     const validatedArgs = GetDesignTokensArgsSchema.parse(args);
     const { fileId, tokenTypes, format } = validatedArgs;
 
+    const formatter = format === 'standard' ? undefined : this.formatters.get(format);
+    if (format !== 'standard' && !formatter) {
+      const available = this.getAvailableFormats().map(({ format }) => format).join(', ');
+      throw new Error(`Unknown token format "${format}". Available formats: ${available}`);
+    }
+
+    const tokens = await this.collectTokens(fileId, tokenTypes);
+
+    if (!formatter) {
+      return tokens;
+    }
+
+    const uniqueTokens = this.uniqueTokens(tokens);
+    return {
+      format,
+      content: formatter.formatTokens(uniqueTokens),
+      tokenCount: uniqueTokens.length,
+      _metadata: tokens._metadata,
+    };
+  }
+
+  async getTokenReferenceIndex(fileId: string): Promise<TokenReferenceIndex> {
+    const tokens = await this.collectTokens(fileId, ['all']);
+    const index: TokenReferenceIndex = { styles: {}, variables: {} };
+
+    // Maps style keys and variable ids to token names so nodes can reference the catalogue
+    [...tokens.colors, ...tokens.typography, ...tokens.spacing, ...tokens.effects, ...tokens.variables]
+      .forEach(token => {
+        if (token.styleKey) {
+          index.styles[token.styleKey] = token.name;
+        }
+        if (token.variableId) {
+          index.variables[token.variableId] = token.name;
+        }
+      });
+
+    return index;
+  }
+
+  private async collectTokens(fileId: string, tokenTypes: string[]): Promise<TokenCollection> {
     const cacheKey = CacheService.keys.designTokens(fileId);
     const cached = await this.cache.get<TokenCollection>(cacheKey);
     
@@ -36,6 +131,7 @@ export class DesignTokenExtractor {
 
     const stylesResponse = await this.figmaClient.getFileStyles(fileId);
     const styles = stylesResponse.meta.styles;
+    const styleNodes = await this.fetchStyleNodes(fileId, styles);
 
     // Try to get variables, but handle gracefully if the token doesn't have file_variables:read scope
     let variables: any[] = [];
@@ -88,7 +184,7 @@ export class DesignTokenExtractor {
       };
     }
 
-    const tokens = await this.processStylesAndVariables(styles, variables, variableCollections, fileId);
+    const tokens = await this.processStylesAndVariables(styles, styleNodes, variables, variableCollections);
     
     // Add variables metadata to response
     const variablesMetadata = (global as any).__figmaVariablesMetadata;
@@ -128,11 +224,48 @@ export class DesignTokenExtractor {
     return filtered;
   }
 
+  private async fetchStyleNodes(fileId: string, styles: FigmaPublishedStyle[]): Promise<Map<string, FigmaNode>> {
+    const nodes = new Map<string, FigmaNode>();
+    const nodeIds = styles.map(style => style.node_id).filter(Boolean);
+
+    // The styles endpoint only returns metadata, so values are read from each style's definition node
+    for (let start = 0; start < nodeIds.length; start += STYLE_NODE_BATCH_SIZE) {
+      const batch = nodeIds.slice(start, start + STYLE_NODE_BATCH_SIZE);
+
+      try {
+        const response = await this.figmaClient.getNodes(fileId, batch);
+        Object.entries(response.nodes).forEach(([nodeId, entry]) => {
+          if (entry) {
+            nodes.set(nodeId, entry.document);
+          }
+        });
+      } catch (error: any) {
+        logger.debug('Failed to resolve style nodes', { fileId, nodeCount: batch.length, message: error.message });
+      }
+    }
+
+    logger.debug(`Resolved ${nodes.size} of ${nodeIds.length} style nodes for file ${fileId}`);
+    return nodes;
+  }
+
+  private uniqueTokens(tokens: TokenCollection): DesignToken[] {
+    // Variables are listed both under variables and under their type collection
+    const byName = new Map<string, DesignToken>();
+    [...tokens.colors, ...tokens.typography, ...tokens.spacing, ...tokens.effects, ...tokens.variables]
+      .forEach(token => {
+        if (!byName.has(token.name)) {
+          byName.set(token.name, token);
+        }
+      });
+
+    return Array.from(byName.values());
+  }
+
   private async processStylesAndVariables(
-    styles: any[], 
+    styles: FigmaPublishedStyle[],
+    styleNodes: Map<string, FigmaNode>,
     variables: any[], 
-    variableCollections: any[], 
-    fileId: string
+    variableCollections: any[]
   ): Promise<TokenCollection> {
     const tokens: TokenCollection = {
       colors: [],
@@ -148,7 +281,7 @@ export class DesignTokenExtractor {
     // Process legacy styles
     for (const style of styles) {
       try {
-        const token = await this.convertStyleToToken(style, fileId);
+        const token = this.convertStyleToToken(style, styleNodes.get(style.node_id));
         if (token) {
           const targetCollection = this.getCollectionFromTokenType(token.type);
           if (targetCollection && targetCollection in tokens) {
@@ -208,32 +341,48 @@ export class DesignTokenExtractor {
     return tokens;
   }
 
-  private async convertStyleToToken(style: any, fileId: string): Promise<DesignToken | null> {
+  private convertStyleToToken(style: FigmaPublishedStyle, node?: FigmaNode): DesignToken | null {
+    if (!node) {
+      logger.debug('Skipping style without a resolvable definition node', { styleKey: style.key, nodeId: style.node_id });
+      return null;
+    }
+
+    let token: DesignToken | null;
+
     switch (style.style_type) {
       case 'FILL':
-        return this.createColorToken(style);
+        token = this.createColorToken(style, node);
+        break;
       
       case 'TEXT':
-        return this.createTypographyToken(style);
+        token = this.createTypographyToken(style, node);
+        break;
       
       case 'EFFECT':
-        return this.createEffectToken(style);
+        token = this.createEffectToken(style, node);
+        break;
       
       default:
         return null;
     }
+
+    return token && { ...token, styleKey: style.key };
   }
 
-  private createColorToken(style: any): DesignToken {
-    // Get the first solid fill for simplicity
-    const fill = style.fills?.find((f: any) => f.type === 'SOLID');
-    const color = fill?.color;
-    
-    const hexValue = color ? this.rgbaToHex(color) : '#000000';
+  private createColorToken(style: FigmaPublishedStyle, node: FigmaNode): DesignToken | null {
+    // Gradient and image fills have no single color value
+    const fill = node.fills?.find(paint => paint.type === 'SOLID' && paint.visible !== false);
+    if (!fill?.color) {
+      logger.debug('Skipping fill style without a solid paint', { styleKey: style.key });
+      return null;
+    }
+
+    const color = { ...fill.color, a: (fill.color.a ?? 1) * (fill.opacity ?? 1) };
     
     return {
       name: this.normalizeTokenName(style.name),
-      value: hexValue,
+      path: this.splitTokenPath(style.name),
+      value: this.rgbaToHex(color),
       type: 'color',
       description: style.description || undefined,
       category: this.inferColorCategory(style.name),
@@ -241,17 +390,24 @@ export class DesignTokenExtractor {
     };
   }
 
-  private createTypographyToken(style: any): DesignToken {
+  private createTypographyToken(style: FigmaPublishedStyle, node: FigmaNode): DesignToken | null {
+    const typeStyle = node.style;
+    if (!typeStyle) {
+      logger.debug('Skipping text style without a type style', { styleKey: style.key });
+      return null;
+    }
+
     const value = {
-      fontFamily: style.font_family || 'inherit',
-      fontSize: style.font_size || 16,
-      fontWeight: style.font_weight || 400,
-      lineHeight: this.extractLineHeight(style),
-      letterSpacing: this.extractLetterSpacing(style),
+      fontFamily: typeStyle.fontFamily || 'inherit',
+      fontSize: typeStyle.fontSize,
+      fontWeight: typeStyle.fontWeight || 400,
+      lineHeight: this.extractLineHeight(typeStyle),
+      letterSpacing: this.extractLetterSpacing(typeStyle),
     };
 
     return {
       name: this.normalizeTokenName(style.name),
+      path: this.splitTokenPath(style.name),
       value,
       type: 'typography',
       description: style.description || undefined,
@@ -259,27 +415,26 @@ export class DesignTokenExtractor {
     };
   }
 
-  private createEffectToken(style: any): DesignToken {
-    const effect = style.effects?.[0];
+  private createEffectToken(style: FigmaPublishedStyle, node: FigmaNode): DesignToken | null {
+    const effects = node.effects?.filter(candidate => candidate.visible !== false) || [];
+    const [effect] = effects;
     if (!effect) {
-      return {
-        name: this.normalizeTokenName(style.name),
-        value: {},
-        type: 'effect',
-        category: 'effects',
-      };
+      logger.debug('Skipping effect style without a visible effect', { styleKey: style.key });
+      return null;
     }
 
+    // Elevation styles stack several shadows, which are kept as layers on top of the first one
+    const layers = SHADOW_EFFECT_TYPES.has(effect.type)
+      ? effects.filter(candidate => SHADOW_EFFECT_TYPES.has(candidate.type))
+      : [effect];
     const value = {
-      type: effect.type,
-      color: effect.color ? this.rgbaToHex(effect.color) : undefined,
-      offset: effect.offset,
-      radius: effect.radius,
-      spread: effect.spread,
+      ...this.toEffectValue(effect),
+      ...(layers.length > 1 && { layers: layers.map(layer => this.toEffectValue(layer)) }),
     };
 
     return {
       name: this.normalizeTokenName(style.name),
+      path: this.splitTokenPath(style.name),
       value,
       type: 'effect',
       description: style.description || undefined,
@@ -287,6 +442,16 @@ export class DesignTokenExtractor {
     };
   }
 
+  private toEffectValue(effect: Effect) {
+    return {
+      type: effect.type,
+      color: effect.color ? this.rgbaToCSSColor(effect.color) : undefined,
+      offset: effect.offset,
+      radius: effect.radius,
+      spread: effect.spread,
+    };
+  }
+
   private filterTokenTypes(tokens: TokenCollection, tokenTypes: string[]): TokenCollection {
     if (tokenTypes.includes('all')) {
       return tokens;
@@ -319,6 +484,10 @@ export class DesignTokenExtractor {
     return filtered;
   }
 
+  private splitTokenPath(name: string): string[] {
+    return name.split('/').map(segment => segment.trim()).filter(Boolean);
+  }
+
   private normalizeTokenName(name: string): string {
     return name
       .toLowerCase()
@@ -418,17 +587,24 @@ export class DesignTokenExtractor {
     
     return {
       name: tokenName,
+      path: [collectionName, ...this.splitTokenPath(variable.name)],
       value: this.processVariableValue(defaultValue, variable.resolvedType),
       type: this.mapVariableTypeToTokenType(variable.resolvedType),
       description: variable.description || undefined,
       category: this.inferVariableCategory(variable.name, variable.resolvedType),
       collectionName,
       variableId: variable.id,
-      modes: Object.keys(valuesByMode).length > 1 ? this.processModes(valuesByMode, variable.resolvedType) : undefined,
+      modes: Object.keys(valuesByMode).length > 1 ? this.processModes(valuesByMode, variable.resolvedType, collection) : undefined,
+      defaultMode: Object.keys(valuesByMode).length > 1 ? this.getModeName(defaultModeId, collection) : undefined,
     };
   }
 
   private processVariableValue(value: any, type: string): any {
+    // Aliases point at another variable and are resolved by the consumer
+    if (value?.type === 'VARIABLE_ALIAS') {
+      return { type: 'VARIABLE_ALIAS', id: value.id };
+    }
+
     switch (type) {
       case 'COLOR':
         return this.rgbaToHex(value);
@@ -488,16 +664,20 @@ export class DesignTokenExtractor {
     return 'miscellaneous';
   }
 
-  private processModes(valuesByMode: any, type: string): any {
+  private processModes(valuesByMode: any, type: string, collection?: any): any {
     const modes: any = {};
     
     for (const [modeId, value] of Object.entries(valuesByMode)) {
-      modes[modeId] = this.processVariableValue(value, type);
+      modes[this.getModeName(modeId, collection)] = this.processVariableValue(value, type);
     }
     
     return modes;
   }
 
+  private getModeName(modeId: string, collection?: any): string {
+    return collection?.modes?.find((mode: any) => mode.modeId === modeId)?.name || modeId;
+  }
+
   private getCollectionFromCategory(category: string): keyof TokenCollection | null {
     const categoryMap: Record<string, keyof TokenCollection> = {
       'primary': 'colors',
@@ -533,30 +713,54 @@ export class DesignTokenExtractor {
     return typeMap[type] || null;
   }
 
-  private extractLineHeight(style: any): number {
-    if (style.line_height?.unit === 'PIXELS') {
-      return style.line_height.value;
+  private extractLineHeight(typeStyle: TypeStyle): number {
+    // The REST API always reports the computed pixel line height, including for "auto"
+    if (typeStyle.lineHeightPx !== undefined) {
+      return typeStyle.lineHeightPx;
     }
-    if (style.line_height?.unit === 'PERCENT') {
-      return (style.font_size || 16) * (style.line_height.value / 100);
+    if (typeStyle.lineHeightPercentFontSize !== undefined) {
+      return typeStyle.fontSize * (typeStyle.lineHeightPercentFontSize / 100);
     }
-    return (style.font_size || 16) * 1.2; // Default line height
+    if (typeStyle.lineHeight?.unit === 'PIXELS') {
+      return typeStyle.lineHeight.value;
+    }
+    if (typeStyle.lineHeight?.unit === 'PERCENT') {
+      return typeStyle.fontSize * (typeStyle.lineHeight.value / 100);
+    }
+    return typeStyle.fontSize * 1.2; // Default line height
   }
 
-  private extractLetterSpacing(style: any): number {
-    if (style.letter_spacing?.unit === 'PIXELS') {
-      return style.letter_spacing.value;
+  private extractLetterSpacing(typeStyle: TypeStyle): number {
+    const letterSpacing = typeStyle.letterSpacing;
+    if (typeof letterSpacing === 'number') {
+      return letterSpacing;
+    }
+    if (letterSpacing?.unit === 'PIXELS') {
+      return letterSpacing.value;
     }
-    if (style.letter_spacing?.unit === 'PERCENT') {
-      return (style.font_size || 16) * (style.letter_spacing.value / 100);
+    if (letterSpacing?.unit === 'PERCENT') {
+      return typeStyle.fontSize * (letterSpacing.value / 100);
     }
     return 0; // Default letter spacing
   }
 
-  private rgbaToHex(rgba: RGBA): string {
+  private rgbaToCSSColor(rgba: RGBA): string {
+    // Shadows are usually translucent, which hex without alpha would lose
+    if (rgba.a === undefined || rgba.a >= 1) {
+      return this.rgbaToHex(rgba);
+    }
+
     const r = Math.round(rgba.r * 255);
     const g = Math.round(rgba.g * 255);
     const b = Math.round(rgba.b * 255);
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+    return `rgba(${r}, ${g}, ${b}, ${Math.round(rgba.a * 100) / 100})`;
+  }
+
+  private rgbaToHex(rgba: RGBA): string {
+    const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0');
+    const hex = `#${toHex(rgba.r)}${toHex(rgba.g)}${toHex(rgba.b)}`;
+
+    // Translucent colors keep their alpha as #rrggbbaa so native formats can carry it through
+    return rgba.a === undefined || rgba.a >= 1 ? hex : `${hex}${toHex(rgba.a)}`;
   }
 }
\ No newline at end of file
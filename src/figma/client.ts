@@ -1,5 +1,5 @@
 import fetch from 'node-fetch';
-import { FigmaFile, FigmaNode } from '../types/figma.js';
+import { FigmaFile, FigmaNodesResponse, FigmaPublishedComponent, FigmaPublishedStyle } from '../types/figma.js';
 
 export interface FigmaClientConfig {
   accessToken: string;
@@ -44,15 +44,25 @@ export class FigmaClient {
     return this.makeRequest<FigmaFile>(url);
   }
 
-  async getNodes(fileId: string, nodeIds: string[]): Promise<{ nodes: Record<string, FigmaNode> }> {
+  async getNodes(
+    fileId: string,
+    nodeIds: string[],
+    options: { depth?: number; geometry?: 'paths' } = {}
+  ): Promise<FigmaNodesResponse> {
     const ids = nodeIds.join(',');
-    const url = `${this.config.baseUrl}/${this.config.apiVersion}/files/${fileId}/nodes?ids=${ids}`;
-    return this.makeRequest<{ nodes: Record<string, FigmaNode> }>(url);
+    let url = `${this.config.baseUrl}/${this.config.apiVersion}/files/${fileId}/nodes?ids=${ids}`;
+    if (options.depth !== undefined) {
+      url += `&depth=${options.depth}`;
+    }
+    if (options.geometry) {
+      url += `&geometry=${options.geometry}`;
+    }
+    return this.makeRequest<FigmaNodesResponse>(url);
   }
 
-  async getFileStyles(fileId: string): Promise<{ meta: { styles: any[] } }> {
+  async getFileStyles(fileId: string): Promise<{ meta: { styles: FigmaPublishedStyle[] } }> {
     const url = `${this.config.baseUrl}/${this.config.apiVersion}/files/${fileId}/styles`;
-    return this.makeRequest<{ meta: { styles: any[] } }>(url);
+    return this.makeRequest<{ meta: { styles: FigmaPublishedStyle[] } }>(url);
   }
 
   async getLocalVariables(fileId: string): Promise<{ meta: { variables: any[], variableCollections: any[] } }> {
@@ -60,6 +70,26 @@ export class FigmaClient {
     return this.makeRequest<{ meta: { variables: any[], variableCollections: any[] } }>(url);
   }
 
+  async getFileComponents(fileId: string): Promise<{ meta: { components: FigmaPublishedComponent[] } }> {
+    const url = `${this.config.baseUrl}/${this.config.apiVersion}/files/${fileId}/components`;
+    return this.makeRequest<{ meta: { components: FigmaPublishedComponent[] } }>(url);
+  }
+
+  async getFileComponentSets(fileId: string): Promise<{ meta: { component_sets: FigmaPublishedComponent[] } }> {
+    const url = `${this.config.baseUrl}/${this.config.apiVersion}/files/${fileId}/component_sets`;
+    return this.makeRequest<{ meta: { component_sets: FigmaPublishedComponent[] } }>(url);
+  }
+
+  async getComponent(componentKey: string): Promise<{ meta: FigmaPublishedComponent }> {
+    const url = `${this.config.baseUrl}/${this.config.apiVersion}/components/${componentKey}`;
+    return this.makeRequest<{ meta: FigmaPublishedComponent }>(url);
+  }
+
+  async getComponentSet(componentSetKey: string): Promise<{ meta: FigmaPublishedComponent }> {
+    const url = `${this.config.baseUrl}/${this.config.apiVersion}/component_sets/${componentSetKey}`;
+    return this.makeRequest<{ meta: FigmaPublishedComponent }>(url);
+  }
+
   async getTeamProjects(teamId: string): Promise<{ projects: any[] }> {
     const url = `${this.config.baseUrl}/${this.config.apiVersion}/teams/${teamId}/projects`;
     return this.makeRequest<{ projects: any[] }>(url);
@@ -0,0 +1,101 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter, ParsedColor } from './base.js';
+
+// Figma frames are drawn at 1x (mdpi), where one px is exactly one dp and, at the default font scale, one sp
+abstract class AndroidResourceFormatter extends BaseTokenFormatter {
+  protected getResourceName(token: DesignToken, suffix?: string): string {
+    const name = this.toSnakeCase(suffix ? `${token.name}-${suffix}` : token.name);
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+  }
+
+  // Aliases become resource references only when the target is written as a resource of the same kind,
+  // otherwise the reference would break the app's resource build
+  protected getReferenceTarget(token: DesignToken, variables: Map<string, DesignToken>): DesignToken | undefined {
+    const target = this.isAlias(token.value) ? variables.get(token.value.id) : undefined;
+    if (!target || this.getTokenKind(target) !== this.getTokenKind(token)) {
+      return undefined;
+    }
+    return this.resolveAlias(target.value, variables) !== undefined ? target : undefined;
+  }
+
+  protected formatResources(resources: string[]): string {
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<!-- Design tokens exported from Figma -->',
+      '<resources>',
+      ...resources.map(resource => `    ${resource}`),
+      '</resources>',
+      '',
+    ].join('\n');
+  }
+}
+
+export class AndroidColorsFormatter extends AndroidResourceFormatter {
+  readonly format = 'android-colors';
+  readonly description = 'Android res/values/colors.xml with #AARRGGBB colors';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const resources: string[] = [];
+
+    tokens.forEach(token => {
+      if (this.getTokenKind(token) !== 'color') return;
+
+      // Aliases become resource references, so the link to the target survives in the app
+      const target = this.getReferenceTarget(token, variables);
+      if (target) {
+        resources.push(`<color name="${this.getResourceName(token)}">@color/${this.getResourceName(target)}</color>`);
+        return;
+      }
+
+      const color = this.parseColor(this.resolveAlias(token.value, variables));
+      if (color) {
+        resources.push(`<color name="${this.getResourceName(token)}">${this.toAndroidColor(color)}</color>`);
+      }
+    });
+
+    return this.formatResources(resources);
+  }
+
+  private toAndroidColor({ r, g, b, a }: ParsedColor): string {
+    return `#${[a * 255, r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+  }
+}
+
+export class AndroidDimensFormatter extends AndroidResourceFormatter {
+  readonly format = 'android-dimens';
+  readonly description = 'Android res/values/dimens.xml with dp spacing and sp text sizes';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const resources: string[] = [];
+    const dimen = (name: string, value: string) => resources.push(`<dimen name="${name}">${value}</dimen>`);
+
+    tokens.forEach(token => {
+      switch (this.getTokenKind(token)) {
+        case 'dimension': {
+          const target = this.getReferenceTarget(token, variables);
+          const value = this.resolveAlias(token.value, variables);
+          if (target) {
+            dimen(this.getResourceName(token), `@dimen/${this.getResourceName(target)}`);
+          } else if (typeof value === 'number') {
+            dimen(this.getResourceName(token), `${this.formatNumber(value)}dp`);
+          }
+          break;
+        }
+        case 'typography': {
+          const { fontSize, lineHeight } = token.value as any;
+          dimen(this.getResourceName(token, 'size'), `${this.formatNumber(fontSize)}sp`);
+          dimen(this.getResourceName(token, 'line-height'), `${this.formatNumber(lineHeight)}sp`);
+          break;
+        }
+        case 'shadow':
+        case 'blur':
+          dimen(this.getResourceName(token, 'radius'), `${this.formatNumber((token.value as any).radius || 0)}dp`);
+          break;
+      }
+    });
+
+    return this.formatResources(resources);
+  }
+}
@@ -0,0 +1,330 @@
+import { DesignToken } from '../types/figma.js';
+import { logger } from '../utils/logger.js';
+
+export interface TokenFormatter {
+  readonly format: string;
+  readonly description: string;
+  formatTokens(tokens: DesignToken[]): string;
+}
+
+export type TokenKind =
+  | 'color'
+  | 'dimension'
+  | 'number'
+  | 'typography'
+  | 'shadow'
+  | 'blur'
+  | 'fontFamily'
+  | 'string'
+  | 'boolean'
+  | 'unknown';
+
+export interface ParsedColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Property names used by the JSON token document formats
+export interface TokenDocumentKeys {
+  value: string;
+  type: string;
+  description: string;
+  extensions: string;
+  extensionNamespace: string;
+  // Style Dictionary references end in the value key ("{color.primary.value}"), DTCG ones do not
+  referenceIncludesValueKey: boolean;
+}
+
+interface VariableAliasValue {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export abstract class BaseTokenFormatter implements TokenFormatter {
+  abstract readonly format: string;
+  abstract readonly description: string;
+
+  abstract formatTokens(tokens: DesignToken[]): string;
+
+  protected indexVariables(tokens: DesignToken[]): Map<string, DesignToken> {
+    return new Map(tokens.filter(token => token.variableId).map(token => [token.variableId!, token]));
+  }
+
+  protected isAlias(value: any): value is VariableAliasValue {
+    return value?.type === 'VARIABLE_ALIAS' && typeof value.id === 'string';
+  }
+
+  // Follows alias chains to a concrete value, preferring the same mode on the target variable
+  protected resolveAlias(value: any, variables: Map<string, DesignToken>, mode?: string, depth = 0): any {
+    if (!this.isAlias(value)) {
+      return value;
+    }
+
+    const target = variables.get(value.id);
+    if (!target || depth > 10) {
+      return undefined;
+    }
+
+    const targetValue = mode && target.modes && mode in target.modes ? target.modes[mode] : target.value;
+    return this.resolveAlias(targetValue, variables, mode, depth + 1);
+  }
+
+  protected getModeOverrides(token: DesignToken): Array<[string, any]> {
+    return Object.entries(token.modes || {}).filter(([mode]) => mode !== token.defaultMode);
+  }
+
+  protected getTokenKind(token: DesignToken): TokenKind {
+    switch (token.type) {
+      case 'color':
+        return 'color';
+      case 'typography':
+        return typeof token.value === 'object' ? 'typography' : 'unknown';
+      case 'effect': {
+        const effectType = (token.value as any)?.type;
+        if (effectType === 'DROP_SHADOW' || effectType === 'INNER_SHADOW') return 'shadow';
+        if (effectType === 'LAYER_BLUR' || effectType === 'BACKGROUND_BLUR') return 'blur';
+        return 'unknown';
+      }
+      case 'spacing':
+        return this.isUnitless(token) ? 'number' : 'dimension';
+      case 'content':
+        return token.category === 'font-family' ? 'fontFamily' : 'string';
+      case 'boolean':
+        return 'boolean';
+      default:
+        return 'unknown';
+    }
+  }
+
+  protected isUnitless(token: DesignToken): boolean {
+    return /weight|opacity|z-?index|ratio|scale/.test(token.name);
+  }
+
+  // DTCG-style values shared by the structured formats
+  protected toStructuredValue(token: DesignToken, value: any): any {
+    switch (this.getTokenKind(token)) {
+      case 'typography':
+        return {
+          fontFamily: value.fontFamily,
+          fontSize: this.toPx(value.fontSize),
+          fontWeight: value.fontWeight,
+          letterSpacing: this.toPx(value.letterSpacing || 0),
+          lineHeight: this.formatNumber(value.lineHeight / value.fontSize),
+        };
+      case 'shadow': {
+        const layers = this.getShadowLayers(value).map(layer => ({
+          color: layer.color || '#000000',
+          offsetX: this.toPx(layer.offset?.x || 0),
+          offsetY: this.toPx(layer.offset?.y || 0),
+          blur: this.toPx(layer.radius || 0),
+          spread: this.toPx(layer.spread || 0),
+          ...(layer.type === 'INNER_SHADOW' && { inset: true }),
+        }));
+        return layers.length > 1 ? layers : layers[0];
+      }
+      case 'blur':
+        return this.toPx(value.radius || 0);
+      case 'dimension':
+        return typeof value === 'number' ? this.toPx(value) : value;
+      default:
+        return value;
+    }
+  }
+
+  protected getStructuredType(token: DesignToken): string | undefined {
+    const kind = this.getTokenKind(token);
+    switch (kind) {
+      case 'color':
+      case 'dimension':
+      case 'number':
+      case 'typography':
+      case 'shadow':
+      case 'fontFamily':
+        return kind;
+      case 'blur':
+        return 'dimension';
+      default:
+        return undefined;
+    }
+  }
+
+  // Stacked shadows carry every layer, a single shadow is its own only layer
+  protected getShadowLayers(effect: any): any[] {
+    return Array.isArray(effect.layers) && effect.layers.length > 0 ? effect.layers : [effect];
+  }
+
+  protected toCSSShadow(effect: any): string {
+    return this.getShadowLayers(effect).map(layer => {
+      const inset = layer.type === 'INNER_SHADOW' ? 'inset ' : '';
+      const x = this.toPx(layer.offset?.x || 0);
+      const y = this.toPx(layer.offset?.y || 0);
+      return `${inset}${x} ${y} ${this.toPx(layer.radius || 0)} ${this.toPx(layer.spread || 0)} ${layer.color || '#000000'}`;
+    }).join(', ');
+  }
+
+  // Reads the #rgb, #rrggbb, #rrggbbaa and rgba() strings produced by the extractor into 0-255 channels
+  protected parseColor(value: any): ParsedColor | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+      const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16);
+      return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+    }
+
+    const rgba = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+    if (rgba) {
+      return { r: Number(rgba[1]), g: Number(rgba[2]), b: Number(rgba[3]), a: rgba[4] === undefined ? 1 : Number(rgba[4]) };
+    }
+
+    return null;
+  }
+
+  protected quoteFontFamily(fontFamily: string): string {
+    return fontFamily === 'inherit' ? fontFamily : `"${fontFamily}"`;
+  }
+
+  protected toPx(value: number): string {
+    return `${this.formatNumber(value)}px`;
+  }
+
+  protected formatNumber(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  protected getTokenPath(token: DesignToken): string[] {
+    return token.path && token.path.length > 0 ? token.path : [token.name];
+  }
+
+  protected toKebabCase(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
+  protected toCamelCase(text: string): string {
+    const camel = text
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((word, index) => {
+        const lower = word === word.toUpperCase() ? word.toLowerCase() : word;
+        return index === 0
+          ? lower.charAt(0).toLowerCase() + lower.slice(1)
+          : lower.charAt(0).toUpperCase() + lower.slice(1);
+      })
+      .join('');
+
+    return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+  }
+
+  protected toPascalCase(text: string): string {
+    const camel = this.toCamelCase(text);
+    return camel.startsWith('_') ? camel : camel.charAt(0).toUpperCase() + camel.slice(1);
+  }
+
+  protected toSnakeCase(text: string): string {
+    return this.toKebabCase(text).replace(/-/g, '_');
+  }
+
+  // Places tokens in a nested tree; a token that is also a group moves to "DEFAULT"
+  protected resolveTreePaths(
+    tokens: DesignToken[],
+    toSegments: (token: DesignToken) => string[]
+  ): Map<DesignToken, string[]> {
+    const paths = new Map<DesignToken, string[]>();
+    const seen = new Set<string>();
+
+    tokens.forEach(token => {
+      const path = toSegments(token).filter(Boolean);
+      const key = path.join('.');
+      if (path.length === 0 || seen.has(key)) {
+        logger.debug('Skipping token with a duplicate path', { format: this.format, token: token.name, path: key });
+        return;
+      }
+      seen.add(key);
+      paths.set(token, path);
+    });
+
+    const keys = Array.from(paths.values()).map(path => path.join('.'));
+    paths.forEach((path, token) => {
+      const key = path.join('.');
+      if (keys.some(other => other.startsWith(`${key}.`))) {
+        paths.set(token, [...path, 'DEFAULT']);
+      }
+    });
+
+    return paths;
+  }
+
+  // Builds a nested token document with alias references, as used by DTCG and Style Dictionary
+  protected buildTokenDocument(tokens: DesignToken[], keys: TokenDocumentKeys): Record<string, any> {
+    // Group names cannot contain ".", "{" or "}" or start with "$"
+    const paths = this.resolveTreePaths(tokens, token =>
+      this.getTokenPath(token).map(segment => segment.trim().replace(/[.{}]/g, '-').replace(/^\$/, ''))
+    );
+
+    // Only variables whose value resolves inside this file can be referenced; aliases to
+    // remote or deleted variables would otherwise leave the value empty
+    const variables = this.indexVariables(tokens);
+    const references = new Map(
+      Array.from(paths)
+        .filter(([token]) => token.variableId && this.resolveAlias(token.value, variables) !== undefined)
+        .map(([token, path]) => {
+          const referencePath = keys.referenceIncludesValueKey ? [...path, keys.value] : path;
+          return [token.variableId!, `{${referencePath.join('.')}}`];
+        })
+    );
+    const root: Record<string, any> = {};
+
+    paths.forEach((path, token) => {
+      const value = this.toDocumentValue(token, token.value, references);
+      if (value === undefined) {
+        logger.debug('Skipping token with an unresolved alias', { format: this.format, token: token.name });
+        return;
+      }
+
+      const figma: Record<string, any> = {};
+      if (token.styleKey) figma.styleKey = token.styleKey;
+      if (token.variableId) figma.variableId = token.variableId;
+
+      // Neither format has a notion of modes, so they travel as metadata next to the default value
+      if (token.modes) {
+        figma.defaultMode = token.defaultMode;
+        figma.modes = Object.fromEntries(
+          Object.entries(token.modes)
+            .map(([mode, modeValue]) => [mode, this.toDocumentValue(token, modeValue, references)])
+            .filter(([, modeValue]) => modeValue !== undefined)
+        );
+      }
+
+      const type = this.getStructuredType(token);
+      this.setInTree(root, path, {
+        [keys.value]: value,
+        ...(type && { [keys.type]: type }),
+        ...(token.description && { [keys.description]: token.description }),
+        ...(Object.keys(figma).length > 0 && { [keys.extensions]: { [keys.extensionNamespace]: figma } }),
+      });
+    });
+
+    return root;
+  }
+
+  private toDocumentValue(token: DesignToken, value: any, references: Map<string, string>): any {
+    return this.isAlias(value) ? references.get(value.id) : this.toStructuredValue(token, value);
+  }
+
+  protected setInTree(root: Record<string, any>, path: string[], value: any): void {
+    const group = path.slice(0, -1).reduce((parent, segment) => {
+      parent[segment] = parent[segment] || {};
+      return parent[segment];
+    }, root);
+
+    group[path[path.length - 1]] = value;
+  }
+}
@@ -0,0 +1,108 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter, ParsedColor } from './base.js';
+
+// Figma frames are drawn at 1x, so px become dp for layout and sp for text one to one
+export class ComposeFormatter extends BaseTokenFormatter {
+  readonly format = 'compose';
+  readonly description = 'Jetpack Compose Kotlin object with Color, Dp and TextStyle values per mode';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const colors: string[] = [];
+    const modeColors = new Map<string, string[]>();
+    const dimensions: string[] = [];
+    const typography: string[] = [];
+
+    tokens.forEach(token => {
+      const name = this.toPascalCase(token.name);
+      const value = this.resolveAlias(token.value, variables);
+      if (value === undefined) return;
+
+      switch (this.getTokenKind(token)) {
+        case 'color': {
+          const color = this.parseColor(value);
+          if (!color) return;
+          colors.push(`val ${name} = ${this.toComposeColor(color)}`);
+
+          // Each other mode gets its own object with the same property names
+          this.getModeOverrides(token).forEach(([mode, modeValue]) => {
+            const modeColor = this.parseColor(this.resolveAlias(modeValue, variables, mode));
+            if (!modeColor) return;
+
+            const objectName = `${this.toPascalCase(mode)}Colors`;
+            if (!modeColors.has(objectName)) modeColors.set(objectName, []);
+            modeColors.get(objectName)!.push(`val ${name} = ${this.toComposeColor(modeColor)}`);
+          });
+          break;
+        }
+        case 'dimension':
+          dimensions.push(`val ${name} = ${this.formatNumber(value)}.dp`);
+          break;
+        case 'shadow':
+        case 'blur':
+          dimensions.push(`val ${this.toPascalCase(`${token.name}-radius`)} = ${this.formatNumber(value.radius || 0)}.dp`);
+          break;
+        case 'typography':
+          typography.push(this.toTextStyle(name, value));
+          break;
+      }
+    });
+
+    const imports = [
+      'androidx.compose.ui.graphics.Color',
+      'androidx.compose.ui.text.TextStyle',
+      'androidx.compose.ui.text.font.FontFamily',
+      'androidx.compose.ui.text.font.FontWeight',
+      'androidx.compose.ui.unit.dp',
+      'androidx.compose.ui.unit.sp',
+    ];
+    const objects = [
+      this.formatObject('Colors', colors),
+      ...Array.from(modeColors, ([objectName, entries]) => this.formatObject(objectName, entries)),
+      this.formatObject('Dimensions', dimensions),
+      this.formatObject('Typography', typography),
+    ].filter((object): object is string => object !== null);
+
+    return [
+      '// Design tokens exported from Figma',
+      '',
+      imports.map(name => `import ${name}`).join('\n'),
+      '',
+      this.formatObject('DesignTokens', objects) ?? 'object DesignTokens',
+      '',
+    ].join('\n');
+  }
+
+  private toComposeColor({ r, g, b, a }: ParsedColor): string {
+    const argb = [a * 255, r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+    return `Color(0x${argb.toUpperCase()})`;
+  }
+
+  private toTextStyle(name: string, value: any): string {
+    // Custom families need font resources in the app, so the Figma name is kept as a hint
+    const fontFamily = value.fontFamily === 'inherit'
+      ? 'FontFamily.Default,'
+      : `FontFamily.Default, // ${value.fontFamily}`;
+
+    return [
+      `val ${name} = TextStyle(`,
+      `    fontFamily = ${fontFamily}`,
+      `    fontSize = ${this.formatNumber(value.fontSize)}.sp,`,
+      `    fontWeight = FontWeight(${Math.round(value.fontWeight || 400)}),`,
+      `    lineHeight = ${this.formatNumber(value.lineHeight)}.sp,`,
+      `    letterSpacing = ${this.formatNumber(value.letterSpacing || 0)}.sp,`,
+      ')',
+    ].join('\n');
+  }
+
+  private formatObject(name: string, entries: string[]): string | null {
+    if (entries.length === 0) {
+      return null;
+    }
+
+    // Multi-line entries such as nested objects and text styles read better with a blank line between them
+    const separator = entries.some(entry => entry.includes('\n')) ? '\n\n' : '\n';
+    const body = entries.map(entry => entry.split('\n').map(line => `    ${line}`).join('\n'));
+    return `object ${name} {\n${body.join(separator)}\n}`;
+  }
+}
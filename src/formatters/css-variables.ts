@@ -0,0 +1,75 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter } from './base.js';
+
+export class CSSVariablesFormatter extends BaseTokenFormatter {
+  readonly format = 'css-variables';
+  readonly description = 'CSS custom properties on :root with [data-theme] blocks for variable modes';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const root: string[] = [];
+    const themes = new Map<string, string[]>();
+
+    tokens.forEach(token => {
+      root.push(...this.toDeclarations(token, token.value, variables));
+
+      // Every non-default mode overrides the variable inside its own theme block
+      this.getModeOverrides(token).forEach(([mode, value]) => {
+        const theme = this.toKebabCase(mode);
+        if (!themes.has(theme)) {
+          themes.set(theme, []);
+        }
+        themes.get(theme)!.push(...this.toDeclarations(token, value, variables));
+      });
+    });
+
+    const blocks = [
+      this.formatBlock(':root', root),
+      ...Array.from(themes, ([theme, declarations]) => this.formatBlock(`[data-theme="${theme}"]`, declarations)),
+    ];
+
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  private toDeclarations(token: DesignToken, value: any, variables: Map<string, DesignToken>): string[] {
+    const property = `--${token.name}`;
+
+    // Aliases stay live references, so a theme override on the target carries through
+    if (this.isAlias(value)) {
+      const target = variables.get(value.id);
+      return target ? [`${property}: var(--${target.name});`] : [];
+    }
+
+    switch (this.getTokenKind(token)) {
+      case 'typography': {
+        const fontFamily = this.quoteFontFamily(value.fontFamily);
+        return [
+          `${property}: ${value.fontWeight} ${this.toPx(value.fontSize)}/${this.toPx(value.lineHeight)} ${fontFamily};`,
+          `${property}-font-family: ${fontFamily};`,
+          `${property}-font-size: ${this.toPx(value.fontSize)};`,
+          `${property}-font-weight: ${value.fontWeight};`,
+          `${property}-line-height: ${this.toPx(value.lineHeight)};`,
+          `${property}-letter-spacing: ${this.toPx(value.letterSpacing || 0)};`,
+        ];
+      }
+      case 'shadow':
+        return [`${property}: ${this.toCSSShadow(value)};`];
+      case 'blur':
+        return [`${property}: blur(${this.toPx(value.radius || 0)});`];
+      case 'dimension':
+        return [`${property}: ${this.toPx(value)};`];
+      case 'number':
+        return [`${property}: ${this.formatNumber(value)};`];
+      case 'string':
+        return [`${property}: ${JSON.stringify(value)};`];
+      default:
+        return value === undefined || value === null || typeof value === 'object'
+          ? []
+          : [`${property}: ${value};`];
+    }
+  }
+
+  private formatBlock(selector: string, declarations: string[]): string {
+    return `${selector} {\n${declarations.map(declaration => `  ${declaration}`).join('\n')}\n}`;
+  }
+}
@@ -0,0 +1,20 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter } from './base.js';
+
+export class DTCGFormatter extends BaseTokenFormatter {
+  readonly format = 'dtcg';
+  readonly description = 'W3C Design Tokens Community Group JSON with alias references';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const document = this.buildTokenDocument(tokens, {
+      value: '$value',
+      type: '$type',
+      description: '$description',
+      extensions: '$extensions',
+      extensionNamespace: 'com.figma',
+      referenceIncludesValueKey: false,
+    });
+
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+}
@@ -0,0 +1,106 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter, TokenKind } from './base.js';
+
+const MAP_NAMES: Partial<Record<TokenKind, string>> = {
+  color: 'colors',
+  dimension: 'spacing',
+  typography: 'typography',
+  fontFamily: 'font-families',
+  shadow: 'effects',
+  blur: 'effects',
+};
+
+export class SCSSFormatter extends BaseTokenFormatter {
+  readonly format = 'scss';
+  readonly description = 'SCSS variables plus $colors, $spacing, $typography and $themes maps';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const declarations: string[] = [];
+    const maps = new Map<string, string[]>();
+    const themes = new Map<string, string[]>();
+
+    tokens.forEach(token => {
+      const value = this.toValue(token, this.resolveAlias(token.value, variables));
+      if (value === undefined) return;
+
+      const variable = this.getVariableName(token);
+      declarations.push(`${variable}: ${value};`);
+
+      const mapName = MAP_NAMES[this.getTokenKind(token)];
+      if (mapName) {
+        if (!maps.has(mapName)) maps.set(mapName, []);
+        maps.get(mapName)!.push(`'${token.name}': ${variable}`);
+      }
+
+      this.getModeOverrides(token).forEach(([mode, modeValue]) => {
+        const themeValue = this.toValue(token, this.resolveAlias(modeValue, variables, mode));
+        if (themeValue === undefined) return;
+
+        const theme = this.toKebabCase(mode);
+        if (!themes.has(theme)) themes.set(theme, []);
+        themes.get(theme)!.push(`'${token.name}': ${themeValue}`);
+      });
+    });
+
+    const sections = [
+      '// Design tokens exported from Figma',
+      declarations.join('\n'),
+      ...Array.from(maps, ([name, entries]) => this.formatMap(`$${name}`, entries)),
+    ];
+
+    if (themes.size > 0) {
+      const themeEntries = Array.from(themes, ([theme, entries]) =>
+        `'${theme}': ${this.formatMapBody(entries, '  ')}`
+      );
+      sections.push(this.formatMap('$themes', themeEntries));
+    }
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  private toValue(token: DesignToken, value: any): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    switch (this.getTokenKind(token)) {
+      case 'typography':
+        return this.formatMapBody([
+          `font-family: ${this.quoteFontFamily(value.fontFamily)}`,
+          `font-size: ${this.toPx(value.fontSize)}`,
+          `font-weight: ${value.fontWeight}`,
+          `line-height: ${this.toPx(value.lineHeight)}`,
+          `letter-spacing: ${this.toPx(value.letterSpacing || 0)}`,
+        ], '');
+      case 'shadow':
+        return this.toCSSShadow(value);
+      case 'blur':
+        return this.toPx(value.radius || 0);
+      case 'dimension':
+        return this.toPx(value);
+      case 'number':
+        return String(this.formatNumber(value));
+      case 'fontFamily':
+        return this.quoteFontFamily(value);
+      case 'string':
+        return JSON.stringify(value);
+      default:
+        return typeof value === 'object' ? undefined : String(value);
+    }
+  }
+
+  private getVariableName(token: DesignToken): string {
+    // Sass identifiers cannot start with a digit
+    return /^[0-9]/.test(token.name) ? `$_${token.name}` : `$${token.name}`;
+  }
+
+  private formatMap(name: string, entries: string[]): string {
+    return `${name}: ${this.formatMapBody(entries, '')};`;
+  }
+
+  private formatMapBody(entries: string[], indent: string): string {
+    const lines = entries.map(entry => `${indent}  ${entry.replace(/\n/g, `\n${indent}`)},`);
+    return `(\n${lines.join('\n')}\n${indent})`;
+  }
+}
@@ -0,0 +1,20 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter } from './base.js';
+
+export class StyleDictionaryFormatter extends BaseTokenFormatter {
+  readonly format = 'style-dictionary';
+  readonly description = 'Style Dictionary source JSON with value, type and comment per token';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const document = this.buildTokenDocument(tokens, {
+      value: 'value',
+      type: 'type',
+      description: 'comment',
+      extensions: 'attributes',
+      extensionNamespace: 'figma',
+      referenceIncludesValueKey: true,
+    });
+
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+}
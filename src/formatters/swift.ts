@@ -0,0 +1,110 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter, ParsedColor } from './base.js';
+
+const FONT_WEIGHTS: Record<number, string> = {
+  100: 'ultraLight',
+  200: 'thin',
+  300: 'light',
+  400: 'regular',
+  500: 'medium',
+  600: 'semibold',
+  700: 'bold',
+  800: 'heavy',
+  900: 'black',
+};
+
+// Figma px are iOS points, so dimensions carry over without conversion
+export class SwiftFormatter extends BaseTokenFormatter {
+  readonly format = 'swift';
+  readonly description = 'Swift UIColor/Color, Font and CGFloat extensions with dark mode colors';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const colors: string[] = [];
+    const swiftUIColors: string[] = [];
+    const fonts: string[] = [];
+    const metrics: string[] = [];
+
+    tokens.forEach(token => {
+      const name = this.toCamelCase(token.name);
+      const value = this.resolveAlias(token.value, variables);
+      if (value === undefined) return;
+
+      switch (this.getTokenKind(token)) {
+        case 'color': {
+          const color = this.toUIColor(token, value, variables);
+          if (!color) return;
+          colors.push(`static let ${name} = ${color}`);
+          swiftUIColors.push(`static let ${name} = Color(UIColor.${name})`);
+          break;
+        }
+        case 'typography':
+          fonts.push(
+            `/// ${value.fontFamily} ${this.formatNumber(value.fontSize)}pt, line height ${this.formatNumber(value.lineHeight)}pt, letter spacing ${this.formatNumber(value.letterSpacing || 0)}pt`,
+            `static let ${name} = ${this.toFont(value)}`
+          );
+          break;
+        case 'dimension':
+        case 'number':
+          metrics.push(`public static let ${name}: CGFloat = ${this.formatNumber(value)}`);
+          break;
+        case 'shadow':
+        case 'blur':
+          metrics.push(`public static let ${this.toCamelCase(`${token.name}-radius`)}: CGFloat = ${this.formatNumber(value.radius || 0)}`);
+          break;
+      }
+    });
+
+    const sections = ['// Design tokens exported from Figma', 'import SwiftUI\nimport UIKit'];
+    if (colors.length > 0) {
+      sections.push(this.formatBlock('public extension UIColor', colors));
+      sections.push(this.formatBlock('public extension Color', swiftUIColors));
+    }
+    if (fonts.length > 0) {
+      sections.push(this.formatBlock('public extension Font', fonts));
+    }
+    if (metrics.length > 0) {
+      sections.push(this.formatBlock('public enum DesignTokenMetrics', metrics));
+    }
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  private toUIColor(token: DesignToken, value: any, variables: Map<string, DesignToken>): string | null {
+    const light = this.parseColor(value);
+    if (!light) return null;
+
+    // A "Dark" variable mode becomes a dynamic color that follows the system appearance
+    const darkMode = this.getModeOverrides(token).find(([mode]) => /dark/i.test(mode));
+    const dark = darkMode && this.parseColor(this.resolveAlias(darkMode[1], variables, darkMode[0]));
+    if (!dark) {
+      return this.formatColor(light);
+    }
+
+    return [
+      'UIColor { traits in',
+      '    traits.userInterfaceStyle == .dark',
+      `        ? ${this.formatColor(dark)}`,
+      `        : ${this.formatColor(light)}`,
+      '}',
+    ].join('\n');
+  }
+
+  private formatColor({ r, g, b, a }: ParsedColor): string {
+    const channel = (value: number) => (value / 255).toFixed(3);
+    return `UIColor(red: ${channel(r)}, green: ${channel(g)}, blue: ${channel(b)}, alpha: ${a.toFixed(3)})`;
+  }
+
+  private toFont(value: any): string {
+    const weight = FONT_WEIGHTS[Math.round((value.fontWeight || 400) / 100) * 100] || 'regular';
+    const size = this.formatNumber(value.fontSize);
+    return value.fontFamily === 'inherit'
+      ? `Font.system(size: ${size}, weight: .${weight})`
+      : `Font.custom(${JSON.stringify(value.fontFamily)}, size: ${size}).weight(.${weight})`;
+  }
+
+  private formatBlock(declaration: string, lines: string[]): string {
+    const body = lines.map(line => line.split('\n').map(part => `    ${part}`).join('\n'));
+    return `${declaration} {\n${body.join('\n')}\n}`;
+  }
+}
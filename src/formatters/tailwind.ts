@@ -0,0 +1,100 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter } from './base.js';
+
+// Leading path segments that only repeat the theme section a token lands in
+const SECTION_PREFIXES: Record<string, RegExp> = {
+  colors: /^colou?rs?$/i,
+  spacing: /^(spacing|space|sizes?)$/i,
+  borderRadius: /^(radius|radii|corners?)$/i,
+  borderWidth: /^(borders?|strokes?)$/i,
+  fontSize: /^(text|typography|type|fonts?)$/i,
+  fontFamily: /^(fonts?|font-famil(y|ies)|families)$/i,
+  boxShadow: /^(shadows?|elevations?|effects?)$/i,
+  blur: /^(blurs?|effects?)$/i,
+  opacity: /^opacit(y|ies)$/i,
+  zIndex: /^(z-?index|layers?)$/i,
+};
+
+export class TailwindFormatter extends BaseTokenFormatter {
+  readonly format = 'tailwind';
+  readonly description = 'Tailwind CSS preset with tokens under theme.extend';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const extend: Record<string, Record<string, any>> = {};
+
+    const add = (section: string, token: DesignToken, value: any, key = this.getKey(section, token)) => {
+      if (value === undefined || value === null) return;
+      extend[section] = extend[section] || {};
+      extend[section][key] = value;
+    };
+
+    tokens.forEach(token => {
+      const value = this.resolveAlias(token.value, variables);
+      if (value === undefined) return;
+
+      switch (this.getTokenKind(token)) {
+        case 'color':
+          add('colors', token, this.themed(token, value));
+          break;
+        case 'dimension':
+          add(this.getDimensionSection(token), token, this.themed(token, this.toPx(value)));
+          break;
+        case 'number':
+          if (/opacity/.test(token.name)) add('opacity', token, this.themed(token, String(value)));
+          else if (/weight/.test(token.name)) add('fontWeight', token, this.themed(token, String(value)));
+          else if (/z-?index/.test(token.name)) add('zIndex', token, this.themed(token, String(value)));
+          break;
+        case 'typography':
+          add('fontSize', token, [
+            this.toPx(value.fontSize),
+            {
+              lineHeight: this.toPx(value.lineHeight),
+              fontWeight: String(value.fontWeight),
+              letterSpacing: this.toPx(value.letterSpacing || 0),
+            },
+          ]);
+          if (value.fontFamily !== 'inherit') {
+            add('fontFamily', token, [value.fontFamily], this.toKebabCase(value.fontFamily));
+          }
+          break;
+        case 'fontFamily':
+          add('fontFamily', token, [this.themed(token, value)]);
+          break;
+        case 'shadow':
+          add('boxShadow', token, this.toCSSShadow(value));
+          break;
+        case 'blur':
+          add('blur', token, this.toPx(value.radius || 0));
+          break;
+      }
+    });
+
+    return [
+      '/**',
+      ' * Design tokens exported from Figma.',
+      " * Use as a preset: presets: [require('./figma-tokens.js')]",
+      ' */',
+      `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+      '',
+    ].join('\n');
+  }
+
+  // Tokens with modes point at the css-variables output so themes switch at runtime
+  private themed(token: DesignToken, value: string): string {
+    return this.getModeOverrides(token).length > 0 ? `var(--${token.name}, ${value})` : value;
+  }
+
+  private getDimensionSection(token: DesignToken): string {
+    if (token.category === 'radius') return 'borderRadius';
+    if (token.category === 'border') return 'borderWidth';
+    return 'spacing';
+  }
+
+  private getKey(section: string, token: DesignToken): string {
+    const path = this.getTokenPath(token);
+    const prefix = SECTION_PREFIXES[section];
+    const segments = path.length > 1 && prefix?.test(path[0]) ? path.slice(1) : path;
+    return this.toKebabCase(segments.join('-')) || token.name;
+  }
+}
@@ -0,0 +1,86 @@
+import { DesignToken } from '../types/figma.js';
+import { BaseTokenFormatter } from './base.js';
+
+export class TypeScriptFormatter extends BaseTokenFormatter {
+  readonly format = 'typescript';
+  readonly description = 'Typed tokens.ts module with an as-const token tree and per-theme overrides';
+
+  formatTokens(tokens: DesignToken[]): string {
+    const variables = this.indexVariables(tokens);
+    const paths = this.resolveTreePaths(tokens, token => this.getTokenPath(token).map(segment => this.toCamelCase(segment)));
+    const tree: Record<string, any> = {};
+    const themes: Record<string, Record<string, any>> = {};
+
+    paths.forEach((path, token) => {
+      const value = this.toValue(token, this.resolveAlias(token.value, variables));
+      if (value === undefined) return;
+      this.setInTree(tree, path, value);
+
+      this.getModeOverrides(token).forEach(([mode, modeValue]) => {
+        const themeValue = this.toValue(token, this.resolveAlias(modeValue, variables, mode));
+        if (themeValue === undefined) return;
+
+        const theme = this.toCamelCase(mode);
+        themes[theme] = themes[theme] || {};
+        this.setInTree(themes[theme], path, themeValue);
+      });
+    });
+
+    const lines = [
+      '// Design tokens exported from Figma',
+      '',
+      `export const tokens = ${this.toLiteral(tree, '')} as const;`,
+      '',
+      'export type DesignTokens = typeof tokens;',
+    ];
+
+    if (Object.keys(themes).length > 0) {
+      lines.push(
+        '',
+        `export const themes = ${this.toLiteral(themes, '')} as const;`,
+        '',
+        'export type ThemeName = keyof typeof themes;'
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private toValue(token: DesignToken, value: any): any {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    switch (this.getTokenKind(token)) {
+      case 'shadow':
+        return this.toCSSShadow(value);
+      case 'unknown':
+        return typeof value === 'object' ? undefined : value;
+      default:
+        return this.toStructuredValue(token, value);
+    }
+  }
+
+  private toLiteral(value: any, indent: string): string {
+    if (typeof value === 'string') {
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return String(value);
+    }
+
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+
+    const inner = `${indent}  `;
+    const lines = entries.map(([key, entry]) => `${inner}${this.toPropertyKey(key)}: ${this.toLiteral(entry, inner)},`);
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  private toPropertyKey(key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : `'${key}'`;
+  }
+}
@@ -65,13 +65,14 @@ export class FigmaMcpServer {
     // Initialize services
     this.figmaClient = new FigmaClient();
     this.cache = new CacheService();
-    this.componentExtractor = new ComponentExtractor(
+    this.designTokenExtractor = new DesignTokenExtractor(
       this.figmaClient,
       this.cache
     );
-    this.designTokenExtractor = new DesignTokenExtractor(
+    this.componentExtractor = new ComponentExtractor(
       this.figmaClient,
-      this.cache
+      this.cache,
+      this.designTokenExtractor
     );
     this.rateLimiter = new RateLimiter(100); // 100 requests per hour per client
     this.healthMonitor = new HealthMonitor(this.figmaClient, this.cache);
@@ -88,6 +89,8 @@ export class FigmaMcpServer {
 
   private setupHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const tokenFormats = this.designTokenExtractor.getAvailableFormats();
+
       return {
         tools: [
           {
@@ -146,12 +149,94 @@ export class FigmaMcpServer {
                       type: "boolean",
                       description: "Filter by published status",
                     },
+                    page: {
+                      type: "string",
+                      description: "Only components on this page",
+                    },
+                    pathPrefix: {
+                      type: "string",
+                      description:
+                        "Frame path below the page, e.g. 'Inputs/Text'",
+                    },
+                    group: {
+                      type: "string",
+                      description:
+                        "Slash-named group, e.g. 'Button' for 'Button/Primary'",
+                    },
+                    description: {
+                      type: "string",
+                      description: "Text contained in the component description",
+                    },
+                    hasVariants: {
+                      type: "boolean",
+                      description: "Only component sets with variants, or only components without",
+                    },
+                    propertyNames: {
+                      type: "array",
+                      items: { type: "string" },
+                      description: "Component properties that must all be defined",
+                    },
                   },
                 },
+                limit: {
+                  type: "number",
+                  minimum: 1,
+                  maximum: 500,
+                  default: 50,
+                  description: "Maximum number of components to return",
+                },
+                cursor: {
+                  type: "string",
+                  description:
+                    "nextCursor from a previous response to fetch the following page",
+                },
+                offset: {
+                  type: "number",
+                  minimum: 0,
+                  description:
+                    "Number of components to skip (alternative to cursor)",
+                },
+                sortBy: {
+                  type: "string",
+                  enum: ["name", "page", "lastModified", "variantCount"],
+                  description:
+                    "Sort order; defaults to document order. lastModified and variantCount sort descending",
+                },
               },
               required: ["fileId"],
             },
           },
+          {
+            name: "search-components",
+            description:
+              "Find components by a free-text description, ranked by fuzzy match over names, paths, variants, descriptions and text",
+            inputSchema: {
+              type: "object",
+              properties: {
+                fileId: {
+                  type: "string",
+                  description: "Figma file identifier",
+                },
+                query: {
+                  type: "string",
+                  description: "What to look for, e.g. 'primary CTA' or 'date picker'",
+                },
+                limit: {
+                  type: "number",
+                  minimum: 1,
+                  maximum: 50,
+                  default: 10,
+                  description: "Maximum number of results",
+                },
+                filter: {
+                  type: "object",
+                  description:
+                    "Narrow the search with the same criteria as list-components",
+                },
+              },
+              required: ["fileId", "query"],
+            },
+          },
           {
             name: "get-design-tokens",
             description: "Extract design tokens from a Figma file",
@@ -172,8 +257,11 @@ export class FigmaMcpServer {
                 },
                 format: {
                   type: "string",
-                  enum: ["standard", "css-variables"],
+                  enum: tokenFormats.map(({ format }) => format),
                   default: "standard",
+                  description: tokenFormats
+                    .map(({ format, description }) => `${format}: ${description}`)
+                    .join("; "),
                 },
               },
               required: ["fileId"],
@@ -233,6 +321,49 @@ export class FigmaMcpServer {
               required: ["fileId", "lastSyncTimestamp"],
             },
           },
+          {
+            name: "resolve-url",
+            description:
+              "Resolve a Figma link with a node-id to the component, variant, instance, frame or layer it points at",
+            inputSchema: {
+              type: "object",
+              properties: {
+                url: {
+                  type: "string",
+                  description:
+                    "Figma URL including ?node-id=, e.g. https://www.figma.com/design/KEY/Name?node-id=123-456",
+                },
+                detail: {
+                  type: "string",
+                  enum: ["component", "specification"],
+                  default: "component",
+                  description:
+                    "Return component data or the full implementation specification",
+                },
+              },
+              required: ["url"],
+            },
+          },
+          {
+            name: "get-component-dependencies",
+            description:
+              "Get the dependency graph of nested component instances, ordered with leaf components first",
+            inputSchema: {
+              type: "object",
+              properties: {
+                fileId: {
+                  type: "string",
+                  description: "Figma file identifier",
+                },
+                componentId: {
+                  type: "string",
+                  description:
+                    "Limit the graph to this component and its transitive dependencies (optional)",
+                },
+              },
+              required: ["fileId"],
+            },
+          },
           {
             name: "set-working-file",
             description:
@@ -277,6 +408,14 @@ export class FigmaMcpServer {
                       type: "string",
                       description: "Filter by name pattern",
                     },
+                    page: {
+                      type: "string",
+                      description: "Only components on this page",
+                    },
+                    group: {
+                      type: "string",
+                      description: "Slash-named group, e.g. 'Button'",
+                    },
                   },
                 },
               },
@@ -390,6 +529,10 @@ export class FigmaMcpServer {
             result = await this.handleListComponents(sanitizedArgs);
             break;
 
+          case "search-components":
+            result = await this.handleSearchComponents(sanitizedArgs);
+            break;
+
           case "get-design-tokens":
             result = await this.handleGetDesignTokens(sanitizedArgs);
             break;
@@ -402,6 +545,14 @@ export class FigmaMcpServer {
             result = await this.handleCheckComponentChanges(sanitizedArgs);
             break;
 
+          case "resolve-url":
+            result = await this.handleResolveUrl(sanitizedArgs);
+            break;
+
+          case "get-component-dependencies":
+            result = await this.handleGetComponentDependencies(sanitizedArgs);
+            break;
+
           case "set-working-file":
             result = await this.handleSetWorkingFile(sanitizedArgs, clientId);
             break;
@@ -503,12 +654,16 @@ export class FigmaMcpServer {
   }
 
   private async handleListComponents(args: any) {
-    const { fileId, filter } = args;
+    const { fileId, filter, limit = 50, cursor, offset, sortBy } = args;
 
-    const components = await this.componentExtractor.listComponents(
+    const components = await this.componentExtractor.listComponents({
       fileId,
-      filter
-    );
+      filter,
+      limit,
+      cursor,
+      offset,
+      sortBy,
+    });
 
     return {
       content: [
@@ -520,6 +675,26 @@ export class FigmaMcpServer {
     };
   }
 
+  private async handleSearchComponents(args: any) {
+    const { fileId, query, limit, filter } = args;
+
+    const results = await this.componentExtractor.searchComponents({
+      fileId,
+      query,
+      limit,
+      filter,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleGetDesignTokens(args: any) {
     const { fileId, tokenTypes = ["all"], format = "standard" } = args;
 
@@ -529,6 +704,31 @@ export class FigmaMcpServer {
       format,
     });
 
+    // Formatted output is returned as-is so it can be written straight to a file,
+    // with the token count and variables availability reported alongside it
+    if ("content" in tokens) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: tokens.content,
+          },
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                format: tokens.format,
+                tokenCount: tokens.tokenCount,
+                _metadata: tokens._metadata,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
     return {
       content: [
         {
@@ -584,6 +784,65 @@ export class FigmaMcpServer {
     };
   }
 
+  private async handleResolveUrl(args: any) {
+    const { url, detail = "component" } = args;
+
+    let parsedUrl;
+    try {
+      parsedUrl = FigmaUrlParser.parse(url);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        error instanceof Error ? error.message : "Invalid Figma URL"
+      );
+    }
+
+    if (!parsedUrl.nodeId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "URL does not point to a node. Select a layer in Figma and copy its link."
+      );
+    }
+
+    const fileId = FigmaUrlParser.getTargetFileId(parsedUrl);
+    const resolved = await this.componentExtractor.resolveNode({
+      fileId,
+      nodeId: parsedUrl.nodeId,
+      detail,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { fileId, branchKey: parsedUrl.branchKey, ...resolved },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleGetComponentDependencies(args: any) {
+    const { fileId, componentId } = args;
+
+    const graph = await this.componentExtractor.getDependencyGraph({
+      fileId,
+      componentId,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(graph, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleSetWorkingFile(args: any, clientId: string) {
     const { url } = args;
 
@@ -591,7 +850,9 @@ export class FigmaMcpServer {
       const parsedUrl = FigmaUrlParser.parse(url);
 
       // Validate file access
-      const file = await this.figmaClient.getFile(parsedUrl.fileId);
+      const file = await this.figmaClient.getFile(
+        FigmaUrlParser.getTargetFileId(parsedUrl)
+      );
 
       const workingFile = this.sessionManager.setWorkingFile(
         clientId,
@@ -609,6 +870,8 @@ export class FigmaMcpServer {
                 workingFile: {
                   fileId: workingFile.fileId,
                   fileName: workingFile.fileName,
+                  branchKey: workingFile.branchKey,
+                  mainFileId: workingFile.mainFileId,
                   url: workingFile.url,
                   setAt: workingFile.setAt,
                 },
@@ -687,13 +950,17 @@ export class FigmaMcpServer {
     }
 
     const { filter } = args;
-    const componentsResult = await this.componentExtractor.listComponents(
-      workingFile.fileId,
-      filter
-    );
+    const componentsResult = await this.componentExtractor.listComponents({
+      fileId: workingFile.fileId,
+      filter,
+    });
+    const dependencyGraph = await this.componentExtractor.getDependencyGraph({
+      fileId: workingFile.fileId,
+    });
     const queue = this.sessionManager.getImplementationQueue(
       clientId,
-      componentsResult.components
+      componentsResult.components,
+      dependencyGraph
     );
 
     return {
@@ -712,11 +979,15 @@ export class FigmaMcpServer {
                   id: c.id,
                   name: c.name,
                   type: c.type,
+                  dependencies: c.dependencies,
+                  blockedBy: c.blockedBy,
                 })),
                 inProgress: queue.inProgress.map((c) => ({
                   id: c.id,
                   name: c.name,
                   type: c.type,
+                  dependencies: c.dependencies,
+                  blockedBy: c.blockedBy,
                 })),
                 implemented: queue.implemented.map((c) => ({
                   id: c.id,
@@ -727,6 +998,8 @@ export class FigmaMcpServer {
                   id: c.id,
                   name: c.name,
                   type: c.type,
+                  dependencies: c.dependencies,
+                  blockedBy: c.blockedBy,
                 })),
               },
               summary: {
@@ -734,6 +1007,7 @@ export class FigmaMcpServer {
                 inProgressCount: queue.inProgress.length,
                 implementedCount: queue.implemented.length,
                 needsUpdateCount: queue.needsUpdate.length,
+                blockedCount: queue.pending.filter((c) => c.blockedBy).length,
               },
             },
             null,
@@ -797,6 +1071,7 @@ export class FigmaMcpServer {
               component: specification.component,
               specification: {
                 styling: specification.styling,
+                anatomy: specification.anatomy,
                 accessibility: specification.accessibility,
                 interactions: specification.interactions,
                 usage: specification.usage,
@@ -102,12 +102,15 @@ export class CacheService {
 
   // Predefined cache key generators and TTLs
   static keys = {
-    component: (fileId: string, componentId: string) => `component:${fileId}:${componentId}`,
+    component: (fileId: string, componentId: string, options: string[] = []) =>
+      [`component:${fileId}:${componentId}`, ...options].join(':'),
     componentList: (fileId: string) => `components:${fileId}`,
     designTokens: (fileId: string) => `tokens:${fileId}`,
     fileMetadata: (fileId: string) => `file:${fileId}:meta`,
     fileStyles: (fileId: string) => `file:${fileId}:styles`,
+    fileDocument: (fileId: string) => `file:${fileId}:document`,
     componentSpec: (fileId: string, componentId: string) => `spec:${fileId}:${componentId}`,
+    dependencyGraph: (fileId: string) => `dependencies:${fileId}`,
   };
 
   static ttl = {
@@ -116,6 +119,8 @@ export class CacheService {
     designTokens: 86400000,  // 24 hours
     fileMetadata: 300000,    // 5 minutes
     fileStyles: 3600000,     // 1 hour
+    fileDocument: 300000,    // 5 minutes
     componentSpec: 3600000,  // 1 hour
+    dependencyGraph: 1800000, // 30 minutes
   };
 }
\ No newline at end of file
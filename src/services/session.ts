@@ -1,9 +1,11 @@
-import { ComponentListItem } from '../extractors/component.js';
+import { ComponentListItem, ComponentDependencyGraph } from '../extractors/component.js';
 import { logger } from '../utils/logger.js';
-import { ParsedFigmaUrl } from '../utils/figma-url.js';
+import { ParsedFigmaUrl, FigmaUrlParser } from '../utils/figma-url.js';
 
 export interface WorkingFile {
   fileId: string;
+  mainFileId?: string;
+  branchKey?: string;
   fileName?: string;
   url: string;
   setAt: string;
@@ -22,11 +24,16 @@ export interface ComponentImplementationStatus {
   framework?: string;
 }
 
+export interface QueuedComponent extends ComponentListItem {
+  dependencies?: string[];
+  blockedBy?: string[];
+}
+
 export interface ImplementationQueue {
-  pending: ComponentListItem[];
-  inProgress: ComponentListItem[];
-  implemented: ComponentListItem[];
-  needsUpdate: ComponentListItem[];
+  pending: QueuedComponent[];
+  inProgress: QueuedComponent[];
+  implemented: QueuedComponent[];
+  needsUpdate: QueuedComponent[];
   total: number;
 }
 
@@ -38,7 +45,9 @@ export class SessionManager {
     const now = new Date().toISOString();
     
     const workingFile: WorkingFile = {
-      fileId: parsedUrl.fileId,
+      fileId: FigmaUrlParser.getTargetFileId(parsedUrl),
+      mainFileId: parsedUrl.branchKey ? parsedUrl.fileId : undefined,
+      branchKey: parsedUrl.branchKey,
       fileName: fileName || parsedUrl.fileName,
       url: parsedUrl.url,
       setAt: now,
@@ -50,7 +59,8 @@ export class SessionManager {
     
     logger.info('Working file set', {
       clientId,
-      fileId: parsedUrl.fileId,
+      fileId: workingFile.fileId,
+      branchKey: parsedUrl.branchKey,
       fileName: workingFile.fileName,
       url: parsedUrl.url,
     });
@@ -132,7 +142,11 @@ export class SessionManager {
     return session.implementationStatus.get(componentId) || null;
   }
 
-  getImplementationQueue(clientId: string, components: ComponentListItem[]): ImplementationQueue {
+  getImplementationQueue(
+    clientId: string,
+    components: ComponentListItem[],
+    dependencyGraph?: ComponentDependencyGraph
+  ): ImplementationQueue {
     const session = this.getWorkingFile(clientId);
     
     const queue: ImplementationQueue = {
@@ -143,23 +157,66 @@ export class SessionManager {
       total: components.length,
     };
 
-    for (const component of components) {
+    // Leaf components come first so dependencies are built before the components using them
+    const ordered = dependencyGraph
+      ? this.sortByDependencies(components, dependencyGraph)
+      : components;
+
+    for (const component of ordered) {
       const status = session?.implementationStatus.get(component.id);
+      const queued = this.withDependencies(component, dependencyGraph, session);
       
       if (!status || status.status === 'pending') {
-        queue.pending.push(component);
+        queue.pending.push(queued);
       } else if (status.status === 'in-progress') {
-        queue.inProgress.push(component);
+        queue.inProgress.push(queued);
       } else if (status.status === 'implemented') {
-        queue.implemented.push(component);
+        queue.implemented.push(queued);
       } else if (status.status === 'needs-update') {
-        queue.needsUpdate.push(component);
+        queue.needsUpdate.push(queued);
       }
     }
 
     return queue;
   }
 
+  private sortByDependencies(
+    components: ComponentListItem[],
+    dependencyGraph: ComponentDependencyGraph
+  ): ComponentListItem[] {
+    const position = new Map(dependencyGraph.order.map((id, index) => [id, index]));
+
+    return components
+      .map((component, index) => ({ component, index }))
+      .sort((a, b) => {
+        const aPosition = position.get(a.component.id) ?? Number.MAX_SAFE_INTEGER;
+        const bPosition = position.get(b.component.id) ?? Number.MAX_SAFE_INTEGER;
+        return aPosition - bPosition || a.index - b.index;
+      })
+      .map(({ component }) => component);
+  }
+
+  private withDependencies(
+    component: ComponentListItem,
+    dependencyGraph: ComponentDependencyGraph | undefined,
+    session: WorkingFile | null
+  ): QueuedComponent {
+    const dependencies = dependencyGraph?.nodes[component.id]?.dependencies;
+    if (!dependencies || dependencies.length === 0) {
+      return component;
+    }
+
+    const blockedBy = dependencies.filter(
+      dependencyId => session?.implementationStatus.get(dependencyId)?.status !== 'implemented'
+    );
+
+    return {
+      ...component,
+      dependencies,
+      ...(blockedBy.length > 0 && { blockedBy }),
+    };
+  }
+
   getImplementationSummary(clientId: string): {
     hasWorkingFile: boolean;
     workingFile?: WorkingFile;
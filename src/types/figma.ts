@@ -13,6 +13,20 @@ export interface FigmaFile {
   version: string;
 }
 
+export interface FigmaNodesResponse {
+  name: string;
+  lastModified: string;
+  thumbnailUrl: string;
+  version: string;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponent>;
+    componentSets: Record<string, FigmaComponentSet>;
+    schemaVersion: number;
+    styles: Record<string, FigmaStyle>;
+  } | null>;
+}
+
 export interface FigmaNode {
   id: string;
   name: string;
@@ -27,10 +41,37 @@ export interface FigmaNode {
   cornerRadius?: number;
   effects?: Effect[];
   characters?: string;
+  componentId?: string;
+  componentProperties?: Record<string, InstanceProperty>;
+  overrides?: InstanceOverride[];
   style?: TypeStyle;
   componentPropertyDefinitions?: Record<string, ComponentProperty>;
   variantGroupProperties?: Record<string, VariantProperty>;
   componentPropertyReferences?: Record<string, string>;
+  styles?: Record<string, string>;
+  boundVariables?: Record<string, VariableAlias | VariableAlias[]>;
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  paddingTop?: number;
+  paddingRight?: number;
+  paddingBottom?: number;
+  paddingLeft?: number;
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  constraints?: LayoutConstraint;
+  layoutSizingHorizontal?: 'FIXED' | 'HUG' | 'FILL';
+  layoutSizingVertical?: 'FIXED' | 'HUG' | 'FILL';
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+export interface LayoutConstraint {
+  vertical: 'TOP' | 'BOTTOM' | 'CENTER' | 'TOP_BOTTOM' | 'SCALE';
+  horizontal: 'LEFT' | 'RIGHT' | 'CENTER' | 'LEFT_RIGHT' | 'SCALE';
 }
 
 export interface FigmaComponent {
@@ -38,6 +79,7 @@ export interface FigmaComponent {
   name: string;
   description: string;
   componentSetId?: string;
+  remote?: boolean;
   documentationLinks: DocumentationLink[];
 }
 
@@ -53,13 +95,40 @@ export interface FigmaStyle {
   name: string;
   description: string;
   styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
-  fills?: Paint[];
-  fontFamily?: string;
-  fontSize?: number;
-  fontWeight?: number;
-  lineHeight?: LineHeight;
-  letterSpacing?: LetterSpacing;
-  effects?: Effect[];
+}
+
+export interface FigmaPublishedStyle {
+  key: string;
+  file_key: string;
+  node_id: string;
+  style_type: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at: string;
+  updated_at: string;
+  sort_position?: string;
+}
+
+export interface FigmaPublishedComponent {
+  key: string;
+  file_key: string;
+  node_id: string;
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at: string;
+  updated_at: string;
+  containing_frame?: {
+    name?: string;
+    nodeId?: string;
+    pageId?: string;
+    pageName?: string;
+    containingComponentSet?: {
+      name: string;
+      nodeId: string;
+    };
+  };
 }
 
 export interface Rectangle {
@@ -75,11 +144,20 @@ export interface Paint {
   opacity?: number;
   color?: RGBA;
   gradientStops?: ColorStop[];
+  gradientHandlePositions?: Vector[];
   gradientTransform?: Transform;
   scaleMode?: string;
   imageTransform?: Transform;
   scalingFactor?: number;
   imageRef?: string;
+  boundVariables?: {
+    color?: VariableAlias;
+  };
+}
+
+export interface VariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
 }
 
 export interface RGBA {
@@ -117,8 +195,11 @@ export interface TypeStyle {
   textAutoResize?: string;
   textAlignHorizontal?: string;
   textAlignVertical?: string;
-  letterSpacing?: LetterSpacing;
+  letterSpacing?: number | LetterSpacing;
   lineHeight?: LineHeight;
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
   fills?: Paint[];
 }
 
@@ -139,6 +220,16 @@ export interface ComponentProperty {
   preferredValues?: any[];
 }
 
+export interface InstanceProperty {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  value: boolean | string;
+}
+
+export interface InstanceOverride {
+  id: string;
+  overriddenFields: string[];
+}
+
 export interface VariantProperty {
   values: string[];
 }
@@ -153,6 +244,7 @@ export const ComponentDataSchema = z.object({
   name: z.string(),
   type: z.enum(['COMPONENT', 'COMPONENT_SET']),
   description: z.string().optional(),
+  documentationLinks: z.array(z.string()).optional(),
   properties: z.object({
     dimensions: z.object({
       width: z.number(),
@@ -195,6 +287,23 @@ export const ComponentDataSchema = z.object({
     name: z.string(),
     properties: z.record(z.string()),
     overrides: z.record(z.any()),
+    instanceCount: z.number().optional(),
+  })).optional(),
+  instances: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    page: z.string().optional(),
+    path: z.array(z.string()),
+    variant: z.object({
+      id: z.string(),
+      name: z.string(),
+      properties: z.record(z.string()),
+    }).optional(),
+    propertyOverrides: z.record(z.any()).optional(),
+    overriddenLayers: z.array(z.object({
+      id: z.string(),
+      fields: z.array(z.string()),
+    })).optional(),
   })).optional(),
   componentInterface: z.object({
     props: z.array(z.object({
@@ -204,6 +313,11 @@ export const ComponentDataSchema = z.object({
       default: z.any().optional(),
       description: z.string().optional(),
       values: z.array(z.string()).optional(),
+      controls: z.array(z.object({
+        layerId: z.string(),
+        layerName: z.string(),
+        field: z.enum(['visible', 'characters', 'mainComponent']),
+      })).optional(),
     })),
     events: z.array(z.object({
       name: z.string(),
@@ -219,6 +333,7 @@ export const ComponentDataSchema = z.object({
       name: z.string(),
       description: z.string().optional(),
       required: z.boolean(),
+      allowedComponents: z.array(z.string()).optional(),
     })).optional(),
   }),
 });
@@ -234,11 +349,38 @@ export const DesignTokenSchema = z.object({
   usage: z.array(z.string()).optional(),
   collectionName: z.string().optional(),
   variableId: z.string().optional(),
+  styleKey: z.string().optional(),
   modes: z.record(z.any()).optional(),
+  defaultMode: z.string().optional(),
+  path: z.array(z.string()).optional(),
 });
 
 export type DesignToken = z.infer<typeof DesignTokenSchema>;
 
+export interface AnatomyNode {
+  id: string;
+  name: string;
+  role: 'text' | 'icon' | 'container' | 'instance' | 'shape';
+  layout?: Record<string, any>;
+  tokens?: Record<string, string>;
+  controlledBy?: Record<string, string>;
+  characters?: string;
+  componentId?: string;
+  children?: AnatomyNode[];
+}
+
+export const AnatomyNodeSchema: z.ZodType<AnatomyNode> = z.lazy(() => z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.enum(['text', 'icon', 'container', 'instance', 'shape']),
+  layout: z.record(z.any()).optional(),
+  tokens: z.record(z.string()).optional(),
+  controlledBy: z.record(z.string()).optional(),
+  characters: z.string().optional(),
+  componentId: z.string().optional(),
+  children: z.array(AnatomyNodeSchema).optional(),
+}));
+
 export const ComponentSpecificationSchema = z.object({
   component: ComponentDataSchema,
   styling: z.object({
@@ -246,7 +388,9 @@ export const ComponentSpecificationSchema = z.object({
     variants: z.record(z.record(z.any())),
     states: z.record(z.record(z.any())),
     responsive: z.record(z.record(z.any())).optional(),
+    breakpoints: z.record(z.string()).optional(),
   }),
+  anatomy: AnatomyNodeSchema.optional(),
   accessibility: z.object({
     role: z.string().optional(),
     ariaLabel: z.string().optional(),
@@ -272,6 +416,7 @@ export const ComponentSpecificationSchema = z.object({
       code: z.string(),
     })).optional(),
     doNot: z.array(z.string()).optional(),
+    documentationLinks: z.array(z.string()).optional(),
   }).optional(),
 });
 
@@ -1,46 +1,79 @@
+export type FigmaUrlType = 'file' | 'design' | 'proto' | 'board';
+
 export interface ParsedFigmaUrl {
   fileId: string;
   fileName?: string;
   nodeId?: string;
+  branchKey?: string;
+  urlType: FigmaUrlType;
+  mode?: string;
   url: string;
 }
 
 export class FigmaUrlParser {
-  private static readonly FIGMA_URL_PATTERNS = [
-    /^https:\/\/www\.figma\.com\/file\/([a-zA-Z0-9_-]+)\/([^/?]*)/,
-    /^https:\/\/www\.figma\.com\/design\/([a-zA-Z0-9_-]+)\/([^/?]*)/,
-    /^https:\/\/figma\.com\/file\/([a-zA-Z0-9_-]+)\/([^/?]*)/,
-    /^https:\/\/figma\.com\/design\/([a-zA-Z0-9_-]+)\/([^/?]*)/,
-  ];
-
-  private static readonly NODE_ID_PATTERN = /node-id=([^&]+)/;
+  private static readonly FIGMA_HOSTS = ['figma.com', 'www.figma.com'];
+  private static readonly URL_TYPES: FigmaUrlType[] = ['file', 'design', 'proto', 'board'];
+  private static readonly FILE_KEY_PATTERN = /^[a-zA-Z0-9_-]+$/;
 
   static parse(url: string): ParsedFigmaUrl {
     if (!url || typeof url !== 'string') {
       throw new Error('Invalid URL: URL must be a non-empty string');
     }
 
-    // Try each pattern
-    for (const pattern of this.FIGMA_URL_PATTERNS) {
-      const match = url.match(pattern);
-      if (match) {
-        const fileId = match[1];
-        const fileName = match[2] ? decodeURIComponent(match[2]) : undefined;
-        
-        // Check for node ID in query parameters
-        const nodeMatch = url.match(this.NODE_ID_PATTERN);
-        const nodeId = nodeMatch ? decodeURIComponent(nodeMatch[1]) : undefined;
-
-        return {
-          fileId,
-          fileName,
-          nodeId,
-          url: url.trim(),
-        };
+    const trimmed = url.trim();
+    let parsed: URL;
+
+    try {
+      // Links copied from the address bar sometimes lose their protocol
+      parsed = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch {
+      throw this.formatError();
+    }
+
+    if (parsed.protocol !== 'https:' || !this.FIGMA_HOSTS.includes(parsed.hostname)) {
+      throw this.formatError();
+    }
+
+    // Paths look like /design/KEY/Name or /design/KEY/branch/BRANCH_KEY/Name
+    const [urlType, fileId, ...rest] = parsed.pathname.split('/').filter(Boolean);
+    if (!this.URL_TYPES.includes(urlType as FigmaUrlType) || !fileId || !this.FILE_KEY_PATTERN.test(fileId)) {
+      throw this.formatError();
+    }
+
+    let branchKey: string | undefined;
+    let fileNameSegment = rest[0];
+
+    if (rest[0] === 'branch') {
+      if (!rest[1] || !this.FILE_KEY_PATTERN.test(rest[1])) {
+        throw this.formatError();
       }
+      branchKey = rest[1];
+      fileNameSegment = rest[2];
     }
 
-    throw new Error('Invalid Figma URL format. Expected: https://www.figma.com/file/FILE_ID/File-Name or https://www.figma.com/design/FILE_ID/File-Name');
+    // Other query parameters such as t= or starting-point-node-id are ignored
+    const nodeIdParam = parsed.searchParams.get('node-id');
+
+    return {
+      fileId,
+      fileName: fileNameSegment ? decodeURIComponent(fileNameSegment) : undefined,
+      nodeId: nodeIdParam ? this.normalizeNodeId(nodeIdParam) : undefined,
+      branchKey,
+      urlType: urlType as FigmaUrlType,
+      mode: parsed.searchParams.get('m') || undefined,
+      url: trimmed,
+    };
+  }
+
+  // Branches are separate files for the API, so extraction reads from the branch key
+  static getTargetFileId(parsedUrl: ParsedFigmaUrl): string {
+    return parsedUrl.branchKey || parsedUrl.fileId;
+  }
+
+  // Share links use "123-456" where the API expects "123:456", including nested instance ids like "I1-2;3-4"
+  static normalizeNodeId(nodeId: string): string {
+    const trimmed = nodeId.trim();
+    return /^I?\d+-\d+(;\d+-\d+)*$/.test(trimmed) ? trimmed.replace(/-/g, ':') : trimmed;
   }
 
   static isValidFigmaUrl(url: string): boolean {
@@ -59,6 +92,10 @@ export class FigmaUrlParser {
   static extractNodeId(url: string): string | undefined {
     return this.parse(url).nodeId;
   }
+
+  private static formatError(): Error {
+    return new Error('Invalid Figma URL format. Expected: https://www.figma.com/design/FILE_ID/File-Name (file, proto, board and branch links are also supported)');
+  }
 }
 
 export function createFigmaUrl(fileId: string, fileName?: string, nodeId?: string): string {
@@ -46,6 +46,12 @@ export const ComponentFilterSchema = z.object({
   type: z.enum(['COMPONENT', 'COMPONENT_SET']).optional(),
   name: z.string().optional(),
   published: z.boolean().optional(),
+  page: z.string().min(1).optional(),
+  pathPrefix: z.string().min(1).optional(),
+  group: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  hasVariants: z.boolean().optional(),
+  propertyNames: z.array(z.string().min(1)).optional(),
 }).optional();
 
 export const GetComponentArgsSchema = z.object({
@@ -58,12 +64,23 @@ export const GetComponentArgsSchema = z.object({
 export const ListComponentsArgsSchema = z.object({
   fileId: z.string().min(1),
   filter: ComponentFilterSchema,
+  limit: z.number().int().min(1).max(500).optional(),
+  cursor: z.string().min(1).optional(),
+  offset: z.number().int().min(0).optional(),
+  sortBy: z.enum(['name', 'page', 'lastModified', 'variantCount']).optional(),
+}).refine(args => !(args.cursor && args.offset !== undefined), 'Use either cursor or offset, not both');
+
+export const SearchComponentsArgsSchema = z.object({
+  fileId: z.string().min(1),
+  query: z.string().min(1),
+  limit: z.number().int().min(1).max(50).default(10),
+  filter: ComponentFilterSchema,
 });
 
 export const GetDesignTokensArgsSchema = z.object({
   fileId: z.string().min(1),
   tokenTypes: z.array(z.enum(['colors', 'typography', 'spacing', 'effects', 'variables', 'all'])).default(['all']),
-  format: z.enum(['standard', 'css-variables']).default('standard'),
+  format: z.string().min(1).default('standard'),
 });
 
 export const GetComponentSpecificationArgsSchema = z.object({
@@ -73,6 +90,17 @@ export const GetComponentSpecificationArgsSchema = z.object({
   includeInteractions: z.boolean().default(true),
 });
 
+export const GetComponentDependenciesArgsSchema = z.object({
+  fileId: z.string().min(1),
+  componentId: z.string().min(1).optional(),
+});
+
+export const ResolveNodeArgsSchema = z.object({
+  fileId: z.string().min(1),
+  nodeId: z.string().min(1),
+  detail: z.enum(['component', 'specification']).default('component'),
+});
+
 export const CheckComponentChangesArgsSchema = z.object({
   fileId: z.string().min(1),
   lastSyncTimestamp: z.string().refine(validateTimestamp, 'Invalid timestamp format'),